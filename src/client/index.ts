@@ -1,11 +1,288 @@
 // SPDX-License-Identifier: Apache-2.0
 // Copyright 2025 Exponential Science Foundation and contributors
+import { atom } from "nanostores";
+import { useAuthQuery } from "better-auth/client";
+import { createSiwhMessage } from "../utils/message";
+import { signatureToBase64 } from "../utils/signature";
+import { HederaChainId } from "../types";
+import { SIWH_ERROR_CODES } from "../server/error-codes";
 import type { siwh } from "../server";
-import type { BetterAuthClientPlugin } from "better-auth";
+import type { BetterAuthClientPlugin, BetterAuthOptions } from "better-auth";
+import type { BetterFetchOption } from "better-auth/client";
+import type { SIWHMessageFields } from "../utils/message";
+import type {
+  HederaNetwork,
+  HederaSigner,
+  HederaSignerSignature,
+  LinkedWallet,
+} from "../types";
+
+export { SIWH_ERROR_CODES };
+
+export interface SIWHSignInput<ChainId extends string = string>
+  extends Pick<
+    SIWHMessageFields,
+    | "statement"
+    | "expirationTime"
+    | "notBefore"
+    | "requestId"
+    | "resources"
+  > {
+  signer: HederaSigner;
+  /** Account ID or EVM address the signer signs for */
+  accountId: string;
+  /** Defaults to `hedera:mainnet` */
+  chainId?: ChainId;
+}
+
+// Turns what a signer returned into the `signature` or `signatures` field of
+// a SIWH request body
+function encodeSignature(signature: HederaSignerSignature) {
+  const encode = (s: Uint8Array | string) =>
+    typeof s === "string" ? s : signatureToBase64(s);
+
+  if (Array.isArray(signature)) {
+    return {
+      signatures: signature.map((pair) => ({
+        publicKey: pair.publicKey,
+        signature: encode(pair.signature),
+      })),
+    };
+  }
+  return { signature: encode(signature) };
+}
+
+/**
+ * @param options.networks - The same custom networks as passed to the server
+ * plugin, to type the chain IDs its endpoints accept
+ * @param options.domain - Domain written to the SIWH messages the actions
+ * sign; one of the server plugin's `domain` values. Defaults to the host of
+ * the current page
+ * @param options.uri - URI written to the SIWH messages the actions sign.
+ * Defaults to the origin of the current page
+ */
+export const siwhClient = <
+  const Networks extends readonly HederaNetwork[] = [],
+>(options?: {
+  networks?: Networks;
+  domain?: string;
+  uri?: string;
+}) => {
+  type ChainId = `${HederaChainId}` | Networks[number]["chainId"];
+  type Endpoints = ReturnType<
+    typeof siwh<BetterAuthOptions, Networks>
+  >["endpoints"];
+  type VerifyResult = Awaited<ReturnType<Endpoints["verifySiwhMessage"]>>;
+  type LinkResult = Awaited<ReturnType<Endpoints["linkSiwhWallet"]>>;
+
+  const $siwhWallets = atom(false);
+
+  const atomListeners: {
+    matcher: (path: string) => boolean;
+    signal: "$siwhWallets" | "$sessionSignal";
+  }[] = [
+    {
+      // Wallets are added on sign-in as well as when linking
+      matcher(path) {
+        return (
+          path === "/siwh/verify" ||
+          path === "/siwh/link" ||
+          path === "/siwh/merge" ||
+          path === "/siwh/unlink" ||
+          path === "/siwh/set-primary" ||
+          path === "/sign-out"
+        );
+      },
+      signal: "$siwhWallets",
+    },
+    {
+      // The session carries the primary wallet and step-up claim
+      matcher(path) {
+        return (
+          path === "/siwh/verify" ||
+          path === "/siwh/link" ||
+          path === "/siwh/merge" ||
+          path === "/siwh/unlink" ||
+          path === "/siwh/set-primary" ||
+          path === "/siwh/step-up"
+        );
+      },
+      signal: "$sessionSignal",
+    },
+  ];
 
-export const siwhClient = () => {
   return {
     id: "siwh",
-    $InferServerPlugin: {} as ReturnType<typeof siwh>,
+    $InferServerPlugin: {} as ReturnType<
+      typeof siwh<BetterAuthOptions, Networks>
+    >,
+    getActions($fetch, $store) {
+      // `$fetch` doesn't run the atom listeners like the path proxy does
+      const notifyListeners = (path: string) => {
+        for (const listener of atomListeners) {
+          if (listener.matcher(path)) {
+            $store.notify(listener.signal);
+          }
+        }
+      };
+
+      // Fetches a nonce, has the signer sign the SIWH message built from it
+      // and returns the fields every signed SIWH endpoint takes
+      const signSiwhMessage = async ({
+        signer,
+        accountId,
+        chainId = HederaChainId.Mainnet,
+        ...fields
+      }: SIWHSignInput<ChainId>) => {
+        const { location } = globalThis as {
+          location?: { host: string; origin: string };
+        };
+        const domain = options?.domain ?? location?.host;
+        const uri = options?.uri ?? location?.origin;
+        if (!domain || !uri) {
+          throw new Error(
+            "siwhClient needs the `domain` and `uri` options outside the browser"
+          );
+        }
+
+        const nonce = await $fetch<{ nonce: string }>("/siwh/nonce", {
+          method: "POST",
+          body: { walletAddress: accountId, chainId },
+          throw: false,
+        });
+        if (!nonce.data) {
+          return { data: null, error: nonce.error } as const;
+        }
+
+        const message = createSiwhMessage({
+          ...fields,
+          domain,
+          address: accountId,
+          chainId,
+          uri,
+          nonce: nonce.data.nonce,
+        });
+        try {
+          const signature = await signer.sign(
+            new TextEncoder().encode(message)
+          );
+          return {
+            data: {
+              message,
+              walletAddress: accountId,
+              chainId,
+              ...encodeSignature(signature),
+            },
+            error: null,
+          } as const;
+        } catch (e) {
+          return {
+            data: null,
+            error: {
+              code: "SIGNING_FAILED",
+              message:
+                e instanceof Error
+                  ? `${SIWH_ERROR_CODES.SIGNING_FAILED}: ${e.message}`
+                  : SIWH_ERROR_CODES.SIGNING_FAILED,
+              status: 400,
+              statusText: "BAD_REQUEST",
+            },
+          } as const;
+        }
+      };
+
+      const verify = async (
+        input: SIWHSignInput<ChainId>,
+        body: Record<string, unknown>,
+        fetchOptions?: BetterFetchOption
+      ) => {
+        const signed = await signSiwhMessage(input);
+        if (!signed.data) {
+          return signed;
+        }
+        const result = await $fetch<VerifyResult>("/siwh/verify", {
+          ...fetchOptions,
+          body: { ...signed.data, ...body },
+          method: "POST",
+          throw: false,
+        });
+        if (result.data) {
+          notifyListeners("/siwh/verify");
+        }
+        return result;
+      };
+
+      return {
+        /**
+         * Signs in with a Hedera account: fetches a nonce, has the signer
+         * sign the SIWH message and verifies it
+         */
+        signInWithHedera: (
+          input: SIWHSignInput<ChainId> & {
+            email?: string;
+            callbackURL?: string;
+          },
+          fetchOptions?: BetterFetchOption
+        ) => {
+          const { email, callbackURL, ...signInput } = input;
+          return verify(signInput, { email, callbackURL }, fetchOptions);
+        },
+        /**
+         * Signs up with a Hedera account, like `signInWithHedera`. The user
+         * is only signed in right away with the server's `autoSignIn` option
+         */
+        signUpWithHedera: (
+          input: SIWHSignInput<ChainId> & {
+            email?: string;
+            callbackURL?: string;
+            data?: Record<string, unknown>;
+          },
+          fetchOptions?: BetterFetchOption
+        ) => {
+          const { email, callbackURL, data, ...signInput } = input;
+          return verify(
+            signInput,
+            { isSignUp: true, email, callbackURL, data },
+            fetchOptions
+          );
+        },
+        /**
+         * Links a Hedera account to the signed-in user, signing the SIWH
+         * message with the signer
+         */
+        linkHederaWallet: async (
+          input: SIWHSignInput<ChainId>,
+          fetchOptions?: BetterFetchOption
+        ) => {
+          const signed = await signSiwhMessage(input);
+          if (!signed.data) {
+            return signed;
+          }
+          const result = await $fetch<LinkResult>("/siwh/link", {
+            ...fetchOptions,
+            body: signed.data,
+            method: "POST",
+            throw: false,
+          });
+          if (result.data) {
+            notifyListeners("/siwh/link");
+          }
+          return result;
+        },
+      };
+    },
+    getAtoms($fetch) {
+      const siwhWallets = useAuthQuery<LinkedWallet[]>(
+        $siwhWallets,
+        "/siwh/wallets",
+        $fetch,
+        { method: "GET" }
+      );
+      return {
+        siwhWallets,
+        $siwhWallets,
+      };
+    },
+    atomListeners,
   } satisfies BetterAuthClientPlugin;
 };
@@ -3,6 +3,50 @@
 import type { BetterAuthPluginDBSchema } from "better-auth/db";
 
 export const schema = {
+  user: {
+    fields: {
+      primaryWalletAddress: {
+        type: "string",
+        required: false,
+        input: false,
+      },
+      primaryWalletChainId: {
+        type: "string",
+        required: false,
+        input: false,
+      },
+      hasPlaceholderEmail: {
+        type: "boolean",
+        required: false,
+        defaultValue: false,
+        input: false,
+      },
+    },
+  },
+  session: {
+    fields: {
+      walletVerifiedAt: {
+        type: "date",
+        required: false,
+        input: false,
+      },
+      gatedWallet: {
+        type: "string",
+        required: false,
+        input: false,
+      },
+      walletClaims: {
+        type: "json",
+        required: false,
+        input: false,
+      },
+      walletGateCheckedAt: {
+        type: "date",
+        required: false,
+        input: false,
+      },
+    },
+  },
   walletAddress: {
     fields: {
       userId: {
@@ -17,6 +61,10 @@ export const schema = {
         type: "string",
         required: true,
       },
+      evmAddress: {
+        type: "string",
+        required: false,
+      },
       chainId: {
         type: "string",
         required: true,
@@ -31,4 +79,49 @@ export const schema = {
       },
     },
   },
+  siwhAuthEvent: {
+    fields: {
+      userId: {
+        type: "string",
+        references: {
+          model: "user",
+          field: "id",
+          onDelete: "cascade",
+        },
+        required: false,
+      },
+      type: {
+        type: "string",
+        required: true,
+      },
+      success: {
+        type: "boolean",
+        required: true,
+      },
+      reason: {
+        type: "string",
+        required: false,
+      },
+      walletAddress: {
+        type: "string",
+        required: false,
+      },
+      chainId: {
+        type: "string",
+        required: false,
+      },
+      ipAddress: {
+        type: "string",
+        required: false,
+      },
+      userAgent: {
+        type: "string",
+        required: false,
+      },
+      createdAt: {
+        type: "date",
+        required: true,
+      },
+    },
+  },
 } satisfies BetterAuthPluginDBSchema;
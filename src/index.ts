@@ -5,3 +5,8 @@ export * from "./server";
 export * from "./client";
 export * from "./types";
 export * from "./utils/signature";
+export * from "./utils/message";
+export * from "./utils/verify";
+export * from "./utils/account-key";
+export * from "./utils/account-id";
+export * from "./utils/network";
@@ -0,0 +1,46 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Exponential Science Foundation and contributors
+
+// Error codes and default messages of the errors the SIWH endpoints throw
+// and the client actions return. The key is the `code` of the error; some
+// errors add details to the message.
+export const SIWH_ERROR_CODES = {
+  SIGN_IN_REQUIRED: "You must be signed in",
+  INVALID_SIWH_MESSAGE: "Invalid SIWH message",
+  SIWH_MESSAGE_MISMATCH: "SIWH message does not match the request",
+  SIWH_MESSAGE_EXPIRED: "SIWH message has expired",
+  SIWH_MESSAGE_NOT_YET_VALID: "SIWH message is not yet valid",
+  SIWH_MESSAGE_DOMAIN_MISMATCH:
+    "SIWH message domain does not match the request origin",
+  SIWH_MESSAGE_URI_NOT_TRUSTED: "SIWH message URI is not a trusted origin",
+  INVALID_OR_EXPIRED_NONCE: "Invalid or expired nonce",
+  INVALID_SIWH_SIGNATURE: "Invalid SIWH signature",
+  INVALID_WALLET_ADDRESS: "Invalid wallet address",
+  CHECKSUM_MISMATCH_FOR_NETWORK: "Account ID checksum mismatch for network",
+  EVM_ADDRESS_NOT_RESOLVED:
+    "Unable to resolve EVM address to a Hedera account",
+  EMAIL_REQUIRED: "Email is required when anonymous is disabled",
+  SIGN_UP_NOT_ALLOWED: "Sign up is not allowed for this wallet",
+  WALLET_GATE_DENIED: "Wallet does not hold the required tokens",
+  WALLET_ALREADY_LINKED: "Wallet already linked to an account",
+  WALLET_ALREADY_LINKED_TO_YOU: "This wallet is already linked to your account",
+  WALLET_LINKED_TO_ANOTHER_ACCOUNT:
+    "This wallet is already linked to another account",
+  WALLET_NOT_LINKED: "Wallet is not linked to your account",
+  WALLET_NOT_LINKED_TO_ANY_ACCOUNT: "This wallet is not linked to any account",
+  WALLET_VERIFICATION_REQUIRED: "Wallet re-verification required",
+  ACCOUNT_MERGE_DISABLED: "Account merging is not enabled",
+  ACCOUNT_MERGE_REJECTED: "Account merge rejected",
+  ANONYMOUS_USER_CANNOT_MERGE:
+    "Anonymous users should sign in with the wallet instead",
+  VERIFICATION_EMAIL_NOT_ENABLED: "Verification email isn't enabled",
+  EMAIL_ALREADY_SET: "This email is already set on your account",
+  PLACEHOLDER_EMAIL_REQUIRED:
+    "Your account already has an email; use change-email to replace it",
+  INVALID_TOKEN: "Invalid token",
+  TOKEN_EXPIRED: "Token expired",
+  EMAIL_ALREADY_IN_USE: "Email is already in use",
+  USER_NOT_FOUND: "User not found",
+  SIGNING_FAILED: "The wallet failed to sign the SIWH message",
+  INTERNAL_ERROR: "Something went wrong. Please try again later.",
+} as const;
@@ -2,750 +2,2710 @@
 // Copyright 2025 Exponential Science Foundation and contributors
 import { APIError } from "better-auth";
 import { schema } from "../database/schema";
+import { SIWH_ERROR_CODES } from "./error-codes";
 import { mergeSchema } from "better-auth/db";
-import { createAuthEndpoint } from "better-auth/api";
+import { createAuthEndpoint, createAuthMiddleware } from "better-auth/api";
 import * as z from "zod";
 import { toChecksumAddress } from "../utils/hashing";
-import { getOrigin } from "../utils/url";
-import { base64ToSignature } from "../utils/signature";
+import { getHost, getOrigin, matchesTrustedOrigin } from "../utils/url";
+import { base64ToSignature, decodeSignatureMap } from "../utils/signature";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils.js";
+import { parseSiwhMessage } from "../utils/message";
+import { createStatelessNonce, verifyStatelessNonce } from "../utils/nonce";
+import { createHederaVerifier, isSameHederaKey } from "../utils/verify";
+import { withAccountKeyCache } from "../utils/account-key";
+import { createNetworkRegistry } from "../utils/network";
+import { isEvmAddress, longZeroToAccountId } from "../utils/account-id";
 import { HederaChainId } from "../types";
-import { BASE_ERROR_CODES } from "better-auth";
+import { BASE_ERROR_CODES, BetterAuthError } from "better-auth";
 import { createEmailVerificationToken } from "better-auth/api";
 import { setSessionCookie } from "better-auth/cookies";
-import { sessionMiddleware } from "better-auth/api";
+import { generateRandomString } from "better-auth/crypto";
+import {
+  getSessionFromCtx,
+  originCheck,
+  sessionMiddleware,
+} from "better-auth/api";
 
 // Types
+import type { SecondaryStorage } from "better-auth/db";
 import type {
+  Account,
   InferOptionSchema,
   BetterAuthPlugin,
   BetterAuthOptions,
   AdditionalUserFieldsInput,
+  GenericEndpointContext,
+  Session,
   User,
+  Verification,
 } from "better-auth";
-import type { SIWHVerifyMessageArgs, WalletAddress } from "../types";
+import type {
+  AccountKeyResolver,
+  CacaoPayload,
+  EvmAddressResolver,
+  HederaNetwork,
+  HederaSignature,
+  SignatureType,
+  SIWHVerifyMessageArgs,
+  LinkedWallet,
+  SIWHAuthEvent,
+  SIWHAuthEventType,
+  TokenBalanceResolver,
+  WalletAddress,
+} from "../types";
+
+export interface SIWHHookContext {
+  user: User;
+  /** Checksummed account ID, e.g. `0.0.123-vfmkw` */
+  walletAddress: string;
+  chainId: string;
+  ctx: GenericEndpointContext;
+}
 
-export interface SIWHPluginOptions {
-  domain: string;
+export interface SIWHPluginOptions<
+  Networks extends readonly HederaNetwork[] = readonly HederaNetwork[],
+> {
+  /**
+   * Domains (`host[:port]`) SIWH messages may be signed for. A message is
+   * only accepted if its domain is one of these and, when the request has an
+   * `Origin` header, that origin's host.
+   */
+  domain: string | string[];
   emailDomainName?: string;
   anonymous?: boolean;
   autoSignUp?: boolean;
+  /**
+   * Sign new users in right away instead of returning `token: null`, so they
+   * don't have to sign a second message. Users who signed up with an email
+   * still have to verify it first when `requireEmailVerification` is enabled.
+   * @default false
+   */
+  autoSignIn?: boolean;
   getNonce: () => Promise<string>;
-  verifyMessage: (args: SIWHVerifyMessageArgs) => Promise<boolean>;
+  /**
+   * Custom signature verification. When omitted, signatures are verified
+   * natively against the key returned by `resolveAccountKey`.
+   */
+  verifyMessage?: (args: SIWHVerifyMessageArgs) => Promise<boolean>;
+  /**
+   * Looks up the current public key of a Hedera account, e.g. with
+   * `mirrorNodeKeyResolver()` or `staticKeyResolver()`
+   */
+  resolveAccountKey?: AccountKeyResolver;
+  /**
+   * How long resolved account keys are cached, in seconds. Set to 0 to
+   * disable caching.
+   * @default 300
+   */
+  accountKeyCacheTTL?: number;
+  /**
+   * Maps EVM addresses that aren't long-zero addresses (ECDSA aliases) to
+   * their account ID, e.g. with `mirrorNodeEvmAddressResolver()`
+   */
+  resolveEvmAddress?: EvmAddressResolver;
+  nonce?: {
+    /**
+     * Issue HMAC-signed nonces bound to the wallet address, chain and domain
+     * instead of storing them in the database. Used nonces are tracked in
+     * better-auth's secondary storage, which is required in this mode.
+     * @default false
+     */
+    stateless?: boolean;
+    /**
+     * How long a nonce stays valid, in seconds
+     * @default 900
+     */
+    expiresIn?: number;
+    /**
+     * Maximum number of outstanding nonces per wallet and chain, e.g. one
+     * per open tab. The oldest nonce is discarded when a new one is issued
+     * past the limit.
+     * @default 5
+     */
+    maxPerWallet?: number;
+  };
+  /**
+   * Networks to accept besides mainnet, testnet, previewnet and devnet, such
+   * as a local node or a private network. An entry with a built-in chain ID
+   * overrides that network. Every endpoint only accepts the chain IDs of the
+   * registry.
+   */
+  networks?: Networks;
+  /**
+   * How an account ID seen on a new chain relates to the same account ID on
+   * other chains. Accounts on different networks are unrelated, so by
+   * default they are separate identities.
+   * - `"strict"`: never sign in to a user through a wallet on another chain
+   * - `"link-same-key"`: only when the account resolves to the same key on
+   *   both chains. Requires `resolveAccountKey`.
+   * - `"loose"`: always, adding the new chain to that user
+   * @default "strict"
+   */
+  crossNetworkPolicy?: "strict" | "link-same-key" | "loose";
+  /**
+   * Whether a user has a single primary wallet, or one per chain. The
+   * session user's `primaryWalletAddress` and `primaryWalletChainId` hold the
+   * primary wallet, or with `"chain"` the one most recently made primary.
+   * @default "user"
+   */
+  primaryWalletScope?: "user" | "chain";
+  /**
+   * Called before `/siwh/verify` creates a user. Return `false` to reject the
+   * sign-up, or `{ data }` to override the fields of the user to create.
+   */
+  beforeSignUp?: (
+    args: Omit<SIWHHookContext, "user"> & {
+      user: { name: string; email: string };
+    }
+  ) => Promise<boolean | void | { data: Record<string, any> }>;
+  /**
+   * Called once a user, their first wallet and its account have been created
+   */
+  afterSignUp?: (args: SIWHHookContext) => Promise<void>;
+  /**
+   * Called after `/siwh/verify` creates a session for the user
+   */
+  onSignIn?: (args: SIWHHookContext & { session: Session }) => Promise<void>;
+  /**
+   * Called when a wallet is added to an existing user, either through
+   * `/siwh/link` or by signing in with the same account on another chain
+   */
+  onWalletLinked?: (args: SIWHHookContext) => Promise<void>;
+  /**
+   * Called after a wallet has been unlinked from a user
+   */
+  onWalletUnlinked?: (args: SIWHHookContext) => Promise<void>;
+  /**
+   * Called when an anonymous user (from better-auth's anonymous plugin) links
+   * a wallet, which turns them into a wallet user in place, or signs in with
+   * a wallet of another user. The anonymous plugin's own `onLinkAccount` is
+   * not called for SIWH endpoints.
+   */
+  onLinkAnonymousAccount?: (data: {
+    anonymousUser: { user: User & Record<string, any>; session: Session };
+    newUser: { user: User & Record<string, any>; session: Session };
+  }) => Promise<void> | void;
+  /**
+   * Keep the anonymous user after they sign in with a wallet of another
+   * user, like the anonymous plugin's option of the same name
+   * @default false
+   */
+  disableDeleteAnonymousUser?: boolean;
+  /**
+   * Only admits wallets holding certain HTS tokens or NFTs to sign in, and
+   * attaches claims such as roles to their session. The gate is checked on
+   * `/siwh/verify` and again on `/get-session` once `refreshAge` has passed;
+   * sessions whose wallet no longer passes are revoked.
+   */
+  gate?: {
+    /** Looks up token balances, e.g. `mirrorNodeTokenBalanceResolver()` */
+    resolveTokenBalance: TokenBalanceResolver;
+    /** Token IDs to look up, for every chain or per chain ID */
+    tokens: string[] | Partial<Record<string, string[]>>;
+    /**
+     * Decides from the wallet's balances whether it may sign in. Return
+     * `false` to deny, or `{ claims }` to store claims on the session. By
+     * default, a wallet holding any of the tokens may sign in.
+     */
+    check?: (args: {
+      walletAddress: string;
+      chainId: string;
+      balances: Record<string, number>;
+    }) => Promise<boolean | void | { claims: Record<string, any> }>;
+    /**
+     * How often the gate is checked again for an existing session, in
+     * seconds
+     * @default 86400 (1 day)
+     */
+    refreshAge?: number;
+  };
+  /**
+   * Records nonce requests, sign-ins, links, unlinks, merges and step-ups,
+   * successful or not, in the `siwhAuthEvent` table. With stateless nonces,
+   * only failed nonce requests are recorded. Users can list their own events
+   * through `/siwh/events`.
+   */
+  auditLog?: {
+    enabled: boolean;
+    /**
+     * How long events are kept, in seconds
+     * @default 7776000 (90 days)
+     */
+    retention?: number;
+  };
+  /**
+   * Lets a signed-in user take over a wallet that is linked to another user
+   * through `/siwh/merge`, merging that user into theirs
+   */
+  accountMerge?: {
+    enabled: boolean;
+    /**
+     * Decides how the users are merged, e.g. by moving the app's own rows
+     * with `adapter`. Runs inside the merge transaction, before the merged
+     * user's wallets, accounts and sessions are moved and the user is
+     * deleted. Return `false` to reject the merge, or `{ data }` to update
+     * the surviving user.
+     */
+    mergeUsers?: (args: {
+      sourceUser: User & Record<string, any>;
+      targetUser: User & Record<string, any>;
+      walletAddress: string;
+      chainId: string;
+      adapter: TransactionAdapter;
+      ctx: GenericEndpointContext;
+    }) => Promise<boolean | void | { data: Record<string, any> }>;
+  };
   schema?: InferOptionSchema<typeof schema>;
 }
 
-export const siwh = <O extends BetterAuthOptions>(options: SIWHPluginOptions) =>
-({
-  id: "siwh",
-  schema: mergeSchema(schema, options?.schema),
-  endpoints: {
-    getSiwhNonce: createAuthEndpoint(
-      "/siwh/nonce",
-      {
-        method: "POST",
-        body: z.object({
-          walletAddress: z
-            .string()
-            .regex(
-              /^(0|(?:[1-9]\d*))\.(0|(?:[1-9]\d*))\.(0|(?:[1-9]\d*))$/,
-              "Invalid Hedera account ID format. Expected format: 0.0.123"
-            ),
-          chainId: z
-            .enum([
-              HederaChainId.Mainnet,
-              HederaChainId.Testnet,
-              HederaChainId.Previewnet,
-              HederaChainId.Devnet,
-            ])
-            .optional()
-            .default(HederaChainId.Mainnet),
-        }),
+// Adapter passed to `adapter.transaction` callbacks
+type TransactionAdapter = Parameters<
+  Parameters<GenericEndpointContext["context"]["adapter"]["transaction"]>[0]
+>[0];
+
+// Fields the plugin adds to the user model
+interface PrimaryWalletFields {
+  primaryWalletAddress?: string | null;
+  primaryWalletChainId?: string | null;
+}
+
+// Fields the plugin adds to the session model for `gate`
+interface WalletGateFields {
+  // CAIP-10 account of the wallet the gate was checked for
+  gatedWallet?: string | null;
+  walletClaims?: Record<string, any> | null;
+  walletGateCheckedAt?: Date | string | null;
+}
+
+export { SIWH_ERROR_CODES };
+
+// Creates an error with one of `SIWH_ERROR_CODES`, adding `details` to its
+// message
+function siwhError(
+  status: ConstructorParameters<typeof APIError>[0],
+  code: keyof typeof SIWH_ERROR_CODES,
+  details?: string
+) {
+  return new APIError(status, {
+    code,
+    message: details
+      ? `${SIWH_ERROR_CODES[code]}: ${details}`
+      : SIWH_ERROR_CODES[code],
+  });
+}
+
+// Endpoints recorded in the audit log
+const AUTH_EVENT_TYPES: Partial<Record<string, SIWHAuthEventType>> = {
+  "/siwh/nonce": "nonce",
+  "/siwh/verify": "verify",
+  "/siwh/link": "link",
+  "/siwh/unlink": "unlink",
+  "/siwh/merge": "merge",
+  "/siwh/step-up": "step-up",
+};
+
+// The client's IP address, read the way better-auth does for sessions
+function getRequestIp(ctx: GenericEndpointContext): string | null {
+  const ipAddress = ctx.context.options.advanced?.ipAddress;
+  if (ipAddress?.disableIpTracking || !ctx.headers) {
+    return null;
+  }
+  for (const header of ipAddress?.ipAddressHeaders ?? ["x-forwarded-for"]) {
+    const value = ctx.headers.get(header);
+    if (value) {
+      return value.split(",")[0]!.trim();
+    }
+  }
+  return null;
+}
+
+const walletAddressSchema = z
+  .string()
+  .regex(
+    /^(?:(0|(?:[1-9]\d*))\.(0|(?:[1-9]\d*))\.(0|(?:[1-9]\d*))(?:-[a-z]{5})?|0x[0-9a-fA-F]{40})$/,
+    "Invalid Hedera account ID format. Expected format: 0.0.123, 0.0.123-abcde or an EVM address"
+  );
+
+// Key + signature pairs for KeyList and threshold accounts
+const signaturesSchema = z
+  .array(
+    z.object({
+      publicKey: z
+        .string()
+        .regex(/^(0x)?[0-9a-fA-F]+$/, "Public key must be hex-encoded"),
+      signature: z.string().min(1, "Signature is required"),
+    })
+  )
+  .min(1)
+  .max(32);
+
+const hasSignature = (data: {
+  signature?: string;
+  signatures?: { signature: string }[];
+}) => !!data.signature || !!data.signatures?.length;
+
+/**
+ * Decodes base64 signatures from the request body. WalletConnect
+ * `SignatureMap` payloads are expanded into their signature pairs, taking
+ * the public key and signature type from the map, and 65-byte signatures
+ * are treated as EIP-191 signatures from EVM wallets.
+ */
+function decodeSignatures(
+  signature: string | undefined,
+  signatures: { publicKey: string; signature: string }[] | undefined
+): HederaSignature[] {
+  const decode = (value: string, publicKey?: string): HederaSignature[] => {
+    // EVM wallets return hex signatures
+    const bytes = /^0x([0-9a-fA-F]{2})+$/.test(value)
+      ? hexToBytes(value.slice(2))
+      : base64ToSignature(value);
+    if (bytes.length === 65) {
+      return [{ publicKey, type: "eip191", signature: bytes }];
+    }
+    const signatureMap = bytes.length !== 64 ? decodeSignatureMap(bytes) : null;
+    if (!signatureMap) {
+      return [{ publicKey, signature: bytes }];
+    }
+    return signatureMap.map((entry) => ({
+      publicKey: entry.publicKeyPrefix.length
+        ? bytesToHex(entry.publicKeyPrefix)
+        : publicKey,
+      type: entry.type,
+      signature: entry.signature,
+    }));
+  };
+
+  return [
+    ...(signature ? decode(signature) : []),
+    ...(signatures ?? []).flatMap((pair) =>
+      decode(pair.signature, pair.publicKey)
+    ),
+  ];
+}
+
+/**
+ * Parses a signed SIWH message and checks it against what the server expects,
+ * so that a signature over an unrelated message is rejected before it ever
+ * reaches `verifyMessage`. The nonce is checked separately by `checkNonce`.
+ */
+function assertSiwhMessage(
+  message: string,
+  expected: {
+    domains: string[];
+    address: string;
+    evmAddress: string | null;
+    chainId: string;
+    ledgerId?: string;
+  }
+): CacaoPayload {
+  const parsed = parseSiwhMessage(message);
+  if (!parsed.success) {
+    throw siwhError("UNAUTHORIZED", "INVALID_SIWH_MESSAGE", parsed.error);
+  }
+
+  const { payload } = parsed;
+  const messageAddress = toChecksumAddress(
+    expected.chainId,
+    parsed.address,
+    expected.ledgerId
+  );
+  const now = Date.now();
+
+  let mismatch: string | null = null;
+  if (!expected.domains.includes(payload.domain)) {
+    mismatch = "domain";
+  } else if (parsed.chainId !== expected.chainId) {
+    mismatch = "chain ID";
+  } else if (
+    isEvmAddress(parsed.address)
+      ? parsed.address.toLowerCase() !== expected.evmAddress
+      : !messageAddress.isValid ||
+        messageAddress.noChecksumFormat !== expected.address
+  ) {
+    mismatch = "wallet address";
+  }
+
+  if (mismatch) {
+    throw siwhError("UNAUTHORIZED", "SIWH_MESSAGE_MISMATCH", mismatch);
+  }
+
+  if (payload.exp && Date.parse(payload.exp) <= now) {
+    throw siwhError("UNAUTHORIZED", "SIWH_MESSAGE_EXPIRED");
+  }
+
+  if (payload.nbf && Date.parse(payload.nbf) > now) {
+    throw siwhError("UNAUTHORIZED", "SIWH_MESSAGE_NOT_YET_VALID");
+  }
+
+  return payload;
+}
+
+/**
+ * Requires the session to have been re-verified with a wallet signature
+ * through `/siwh/step-up` within `maxAge` seconds, for sensitive endpoints
+ * such as withdrawals
+ *
+ * @example
+ * ```typescript
+ * createAuthEndpoint(
+ *   "/withdraw",
+ *   { method: "POST", use: [requireWalletVerification({ maxAge: 5 * 60 })] },
+ *   async (ctx) => {
+ *     const { session } = ctx.context;
+ *     // ...
+ *   }
+ * );
+ * ```
+ */
+export const requireWalletVerification = ({ maxAge }: { maxAge: number }) =>
+  createAuthMiddleware(async (ctx) => {
+    const session = await getSessionFromCtx<
+      {},
+      { walletVerifiedAt?: Date | string | null }
+    >(ctx);
+    if (!session?.session) {
+      throw siwhError("UNAUTHORIZED", "SIGN_IN_REQUIRED");
+    }
+
+    const verifiedAt = session.session.walletVerifiedAt
+      ? new Date(session.session.walletVerifiedAt).getTime()
+      : 0;
+    if (Date.now() - verifiedAt > maxAge * 1000) {
+      throw siwhError("FORBIDDEN", "WALLET_VERIFICATION_REQUIRED");
+    }
+    return { session };
+  });
+
+export const siwh = <
+  O extends BetterAuthOptions,
+  const Networks extends readonly HederaNetwork[] = [],
+>(
+  options: SIWHPluginOptions<Networks>
+) => {
+  type ChainId = HederaChainId | Networks[number]["chainId"];
+
+  if (!options.verifyMessage && !options.resolveAccountKey) {
+    throw new BetterAuthError(
+      "siwh: either `verifyMessage` or `resolveAccountKey` must be provided"
+    );
+  }
+
+  const crossNetworkPolicy = options.crossNetworkPolicy ?? "strict";
+  if (crossNetworkPolicy === "link-same-key" && !options.resolveAccountKey) {
+    throw new BetterAuthError(
+      'siwh: `crossNetworkPolicy: "link-same-key"` requires `resolveAccountKey`'
+    );
+  }
+
+  const domains = [options.domain].flat();
+
+  let networks: Map<string, HederaNetwork>;
+  try {
+    networks = createNetworkRegistry(options.networks);
+  } catch (error) {
+    throw new BetterAuthError(`siwh: ${(error as Error).message}`);
+  }
+  // Typed as the registry's chain IDs, which zod can't map generically.
+  // Defaults to mainnet in the endpoints.
+  const chainIdSchema = z
+    .enum([...networks.keys()] as [string, ...string[]])
+    .optional() as z.ZodOptional<z.ZodType<ChainId, ChainId>>;
+
+  let secondaryStorage: SecondaryStorage | undefined;
+  const keyCacheTTL = options.accountKeyCacheTTL ?? 300;
+  const cachedAccountKeyResolver =
+    options.resolveAccountKey && keyCacheTTL > 0
+      ? withAccountKeyCache(
+          options.resolveAccountKey,
+          keyCacheTTL,
+          () => secondaryStorage
+        )
+      : options.resolveAccountKey;
+  // Passes the registry entry of the chain on to the resolver
+  const resolveAccountKey: AccountKeyResolver | undefined =
+    cachedAccountKeyResolver &&
+    ((address, chainId) =>
+      cachedAccountKeyResolver(address, chainId, networks.get(chainId)));
+
+  const verifyMessage =
+    options.verifyMessage ?? createHederaVerifier(resolveAccountKey!);
+
+  // Signature maps carry their type; for raw signatures fall back to the
+  // type of the account's key when it is a single key
+  const getSignatureType = async (
+    signatures: HederaSignature[],
+    address: string,
+    chainId: string
+  ): Promise<SignatureType> => {
+    const type = signatures.find((s) => s.type)?.type;
+    if (type) return type;
+    const key = resolveAccountKey
+      ? await resolveAccountKey(address, chainId)
+      : null;
+    return key && key.type !== "keyList" ? key.type : "ed25519";
+  };
+
+  // Resolves the wallet address from a request to its account ID, decoding
+  // long-zero EVM addresses locally and looking up aliases
+  const resolveWalletAddress = async (
+    rawWalletAddress: string,
+    chainId: string
+  ) => {
+    let accountId: string | null = rawWalletAddress;
+    let evmAddress: string | null = null;
+
+    if (isEvmAddress(rawWalletAddress)) {
+      evmAddress = rawWalletAddress.toLowerCase();
+      accountId =
+        longZeroToAccountId(evmAddress) ??
+        (await options.resolveEvmAddress?.(
+          evmAddress,
+          chainId,
+          networks.get(chainId)
+        )) ??
+        null;
+      if (!accountId) {
+        throw siwhError("BAD_REQUEST", "EVM_ADDRESS_NOT_RESOLVED");
+      }
+    }
+
+    const checksumResult = toChecksumAddress(
+      chainId,
+      accountId,
+      networks.get(chainId)?.ledgerId
+    );
+    if (!checksumResult.isValid) {
+      // Status 1: well-formed, but checksummed for another ledger
+      if (checksumResult.status === 1) {
+        throw siwhError("BAD_REQUEST", "CHECKSUM_MISMATCH_FOR_NETWORK", chainId);
+      }
+      throw siwhError("BAD_REQUEST", "INVALID_WALLET_ADDRESS");
+    }
+
+    return { checksumResult, evmAddress };
+  };
+
+  // Binds a SIWH message to the request it arrives in: the message domain
+  // must be the host of the request's origin, and its URI (`aud`) a trusted
+  // origin
+  const assertMessageOrigin = async (
+    ctx: GenericEndpointContext,
+    payload: CacaoPayload
+  ) => {
+    const origin =
+      ctx.request?.headers.get("origin") ?? ctx.headers?.get("origin");
+    if (origin && origin !== "null" && getHost(origin) !== payload.domain) {
+      throw siwhError("UNAUTHORIZED", "SIWH_MESSAGE_DOMAIN_MISMATCH");
+    }
+
+    const trustedOrigins =
+      typeof ctx.context.options.trustedOrigins === "function" && ctx.request
+        ? [
+            ...ctx.context.trustedOrigins,
+            ...(await ctx.context.options.trustedOrigins(ctx.request)),
+          ]
+        : ctx.context.trustedOrigins;
+    if (!matchesTrustedOrigin(payload.aud, trustedOrigins)) {
+      throw siwhError("UNAUTHORIZED", "SIWH_MESSAGE_URI_NOT_TRUSTED");
+    }
+  };
+
+  const nonceExpiresIn = options.nonce?.expiresIn ?? 15 * 60;
+  const maxNoncesPerWallet = options.nonce?.maxPerWallet ?? 5;
+
+  // Checks that the nonce from a SIWH message was issued for this wallet and
+  // chain (and, when stateless, the message domain) and hasn't been used,
+  // returning a callback that consumes it
+  const checkNonce = async (
+    ctx: GenericEndpointContext,
+    { nonce, domain }: CacaoPayload,
+    walletAddress: string,
+    chainId: string
+  ): Promise<() => Promise<void>> => {
+    const invalidNonce = () =>
+      siwhError("UNAUTHORIZED", "INVALID_OR_EXPIRED_NONCE");
+
+    if (options.nonce?.stateless) {
+      const expiresAt = verifyStatelessNonce(nonce, {
+        secret: ctx.context.secret,
+        address: walletAddress,
+        chainId,
+        domain,
+      });
+      if (!expiresAt) {
+        throw invalidNonce();
+      }
+
+      // Claim the nonce straight away. Secondary storage has no atomic
+      // compare-and-set, so the claim is a splitter over two keys: each
+      // request writes its token, passes a door that closes behind it and
+      // reads its token back. At most one request gets through, and once the
+      // door is closed every later one is rejected.
+      const storage = ctx.context.secondaryStorage!;
+      const usedKey = `siwh-nonce-used:${nonce.split(".")[2]}`;
+      const ttl = Math.ceil((expiresAt.getTime() - Date.now()) / 1000);
+      const claim = generateRandomString(16, "a-z", "A-Z", "0-9");
+      await storage.set(usedKey, claim, ttl);
+      if (await storage.get(`${usedKey}:door`)) {
+        throw invalidNonce();
+      }
+      await storage.set(`${usedKey}:door`, "1", ttl);
+      if ((await storage.get(usedKey)) !== claim) {
+        throw invalidNonce();
+      }
+      return async () => {};
+    }
+
+    // Nonces are keyed by their value, bound to the wallet and chain
+    const verification = await ctx.context.internalAdapter.findVerificationValue(
+      `siwh:${walletAddress}:${chainId}:${nonce}`
+    );
+
+    // Ensure nonce is valid and not expired
+    if (!verification || new Date() > verification.expiresAt) {
+      throw invalidNonce();
+    }
+
+    // A single delete decides which of several concurrent requests using
+    // the same nonce wins
+    return async () => {
+      const deleted = await ctx.context.adapter.deleteMany({
+        model: "verification",
+        where: [{ field: "id", operator: "eq", value: verification.id }],
+      });
+      if (deleted === 0) {
+        throw invalidNonce();
+      }
+    };
+  };
+
+  // Finds a wallet with the same account ID on another chain whose user may
+  // sign in with this wallet, according to `crossNetworkPolicy`
+  const findCrossNetworkWallet = async (
+    ctx: GenericEndpointContext,
+    accountId: string,
+    chainId: string
+  ): Promise<WalletAddress | null> => {
+    if (crossNetworkPolicy === "strict") {
+      return null;
+    }
+
+    // Stored addresses carry the checksum of their own chain
+    const wallets = await ctx.context.adapter.findMany<WalletAddress>({
+      model: "walletAddress",
+      where: [
+        { field: "address", operator: "starts_with", value: `${accountId}-` },
+      ],
+      sortBy: { field: "createdAt", direction: "asc" },
+    });
+    const others = wallets.filter((wallet) => wallet.chainId !== chainId);
+    if (crossNetworkPolicy === "loose" || !others.length) {
+      return others[0] ?? null;
+    }
+
+    const key = await resolveAccountKey!(accountId, chainId);
+    if (!key) {
+      return null;
+    }
+    for (const wallet of others) {
+      const otherKey = await resolveAccountKey!(
+        accountId,
+        wallet.chainId
+      );
+      if (otherKey && isSameHederaKey(key, otherKey)) {
+        return wallet;
+      }
+    }
+    return null;
+  };
+
+  // Checks a signed SIWH message against the request and its nonce, then
+  // verifies the signature, consuming the nonce once it is valid
+  const verifySignedMessage = async (
+    ctx: GenericEndpointContext,
+    {
+      message,
+      signatures,
+      address,
+      walletAddress,
+      evmAddress,
+      chainId,
+    }: {
+      message: string;
+      signatures: HederaSignature[];
+      // Account ID without and with checksum
+      address: string;
+      walletAddress: string;
+      evmAddress: string | null;
+      chainId: string;
+    }
+  ): Promise<CacaoPayload> => {
+    const payload = assertSiwhMessage(message, {
+      domains,
+      address,
+      evmAddress,
+      chainId,
+      ledgerId: networks.get(chainId)?.ledgerId,
+    });
+    await assertMessageOrigin(ctx, payload);
+    const consumeNonce = await checkNonce(
+      ctx,
+      payload,
+      walletAddress,
+      chainId
+    );
+
+    const signature = signatures[0]!.signature;
+    const verified = await verifyMessage({
+      message,
+      signature,
+      signatures,
+      address,
+      chainId,
+      cacao: {
+        h: { t: "caip122" },
+        p: payload,
+        s: {
+          t: await getSignatureType(signatures, address, chainId),
+          s: signature,
+        },
       },
-      async (ctx) => {
-        const { walletAddress: rawWalletAddress, chainId } = ctx.body;
-        const checksumResult = toChecksumAddress(chainId, rawWalletAddress);
-
-        if (!checksumResult.isValid) {
-          throw new APIError("BAD_REQUEST", {
-            message: "Invalid wallet address",
-            status: 400,
-          });
-        }
+    });
+    if (!verified) {
+      throw siwhError("UNAUTHORIZED", "INVALID_SIWH_SIGNATURE");
+    }
+
+    await consumeNonce();
+    return payload;
+  };
 
-        const walletAddress = checksumResult.withChecksumFormat;
-        const nonce = await options.getNonce();
+  // Placeholder email for users who signed up with a wallet only. It names
+  // the chain, since chains sharing a ledger ID give the same checksum.
+  const getWalletEmail = (
+    ctx: GenericEndpointContext,
+    walletAddress: string,
+    chainId: string
+  ) =>
+    `${walletAddress}.${chainId.split(":")[1]}@${
+      options.emailDomainName ?? getOrigin(ctx.context.baseURL)
+    }`;
 
-        // Store nonce with wallet address and chain ID context
-        await ctx.context.internalAdapter.createVerificationValue({
-          identifier: `siwh:${walletAddress}:${chainId}`,
-          value: nonce,
-          expiresAt: new Date(Date.now() + 15 * 60 * 1000),
+  // Checks a wallet against `gate`, returning the claims for its session, or
+  // `null` if it may not sign in
+  const checkGate = async (
+    address: string,
+    walletAddress: string,
+    chainId: string
+  ): Promise<Record<string, any> | null> => {
+    const gate = options.gate!;
+    const tokens = Array.isArray(gate.tokens)
+      ? gate.tokens
+      : (gate.tokens[chainId] ?? []);
+    const balances: Record<string, number> = {};
+    for (const tokenId of tokens) {
+      balances[tokenId] = await gate.resolveTokenBalance(
+        address,
+        tokenId,
+        chainId,
+        networks.get(chainId)
+      );
+    }
+
+    if (!gate.check) {
+      return Object.values(balances).some((balance) => balance > 0)
+        ? {}
+        : null;
+    }
+    const result = await gate.check({ walletAddress, chainId, balances });
+    if (result === false) {
+      return null;
+    }
+    return typeof result === "object" ? result.claims : {};
+  };
+
+  const auditLogRetention = options.auditLog?.retention ?? 60 * 60 * 24 * 90;
+  let auditLogPrunedAt = 0;
+
+  // Records an auth event, without failing the request when that fails
+  const recordAuthEvent = async (
+    ctx: GenericEndpointContext,
+    event: Pick<
+      SIWHAuthEvent,
+      "userId" | "type" | "success" | "reason" | "walletAddress" | "chainId"
+    >
+  ) => {
+    try {
+      await ctx.context.adapter.create<Omit<SIWHAuthEvent, "id">>({
+        model: "siwhAuthEvent",
+        data: {
+          ...event,
+          ipAddress: getRequestIp(ctx),
+          userAgent: ctx.headers?.get("user-agent") ?? null,
+          createdAt: new Date(),
+        },
+      });
+
+      // Expired events are pruned at most once an hour per process
+      if (Date.now() - auditLogPrunedAt > 60 * 60 * 1000) {
+        auditLogPrunedAt = Date.now();
+        await ctx.context.adapter.deleteMany({
+          model: "siwhAuthEvent",
+          where: [
+            {
+              field: "createdAt",
+              operator: "lt",
+              value: new Date(Date.now() - auditLogRetention * 1000),
+            },
+          ],
         });
+      }
+    } catch (error) {
+      ctx.context.logger.error("siwh: failed to record auth event", error);
+    }
+  };
 
-        return ctx.json({ nonce });
+  // Runs a group of writes atomically: in a transaction when the adapter
+  // supports them, otherwise by running the undo steps registered through
+  // `onRollback` in reverse order once a write fails
+  const runAtomically = async <R>(
+    ctx: GenericEndpointContext,
+    fn: (
+      adapter: TransactionAdapter,
+      onRollback: (undo: () => Promise<unknown>) => void
+    ) => Promise<R>
+  ): Promise<R> => {
+    if (ctx.context.adapter.options?.adapterConfig.transaction) {
+      return ctx.context.adapter.transaction((trx) => fn(trx, () => {}));
+    }
+
+    const undos: (() => Promise<unknown>)[] = [];
+    try {
+      return await fn(ctx.context.adapter, (undo) => undos.push(undo));
+    } catch (error) {
+      for (const undo of undos.reverse()) {
+        try {
+          await undo();
+        } catch (undoError) {
+          ctx.context.logger.error(
+            "siwh: failed to roll back a partial write",
+            undoError
+          );
+        }
       }
-    ),
-    verifySiwhMessage: createAuthEndpoint(
-      "/siwh/verify",
+      throw error;
+    }
+  };
+
+  const primaryWalletScope = options.primaryWalletScope ?? "user";
+
+  // Makes the wallet the only primary wallet in its scope and mirrors it on
+  // the user, returning the updated user
+  const setPrimaryWallet = async (
+    ctx: GenericEndpointContext,
+    wallet: WalletAddress,
+    adapter: TransactionAdapter = ctx.context.adapter
+  ): Promise<User> => {
+    await adapter.updateMany({
+      model: "walletAddress",
+      where: [
+        { field: "userId", operator: "eq", value: wallet.userId },
+        ...(primaryWalletScope === "chain"
+          ? [
+              {
+                field: "chainId",
+                operator: "eq" as const,
+                value: wallet.chainId,
+              },
+            ]
+          : []),
+      ],
+      update: { isPrimary: false },
+    });
+    await adapter.update({
+      model: "walletAddress",
+      where: [{ field: "id", operator: "eq", value: wallet.id }],
+      update: { isPrimary: true },
+    });
+    return ctx.context.internalAdapter.updateUser(
+      wallet.userId,
       {
-        method: "POST",
-        body: z
-          .object({
-            message: z.string().min(1),
-            signature: z.string().min(1, "Signature is required"),
-            walletAddress: z
-              .string()
-              .regex(
-                /^(0|(?:[1-9]\d*))\.(0|(?:[1-9]\d*))\.(0|(?:[1-9]\d*))$/,
-                "Invalid Hedera account ID format. Expected format: 0.0.123"
-              ),
-            chainId: z
-              .enum([
-                HederaChainId.Mainnet,
-                HederaChainId.Testnet,
-                HederaChainId.Previewnet,
-                HederaChainId.Devnet,
-              ])
-              .optional()
-              .default(HederaChainId.Mainnet),
-            isSignUp: z.boolean().optional().default(false),
-            email: z.email().optional(),
-            callbackURL: z
-              .string()
-              .meta({
-                description:
-                  "Callback URL to redirect to after the user has signed in",
-              })
-              .optional(),
-            data: z.record(z.string(), z.any()).optional(),
-          })
-          .refine((data) => options.anonymous !== false || !!data.email, {
-            message:
-              "Email is required when the anonymous plugin option is disabled.",
-            path: ["email"],
+        primaryWalletAddress: wallet.address,
+        primaryWalletChainId: wallet.chainId,
+      },
+      undefined,
+      adapter
+    );
+  };
+
+  // Restores the primary wallet invariant after a wallet is added or
+  // removed: the oldest wallet in scope is promoted when the scope has no
+  // primary, and the user's primary wallet fields are moved off a wallet that
+  // no longer exists. Returns the updated user, or `null` if nothing changed.
+  const ensurePrimaryWallet = async (
+    ctx: GenericEndpointContext,
+    userId: string,
+    chainId: string,
+    adapter: TransactionAdapter = ctx.context.adapter
+  ): Promise<User | null> => {
+    const wallets = await adapter.findMany<WalletAddress>({
+      model: "walletAddress",
+      where: [{ field: "userId", operator: "eq", value: userId }],
+      sortBy: { field: "createdAt", direction: "asc" },
+    });
+    const inScope =
+      primaryWalletScope === "chain"
+        ? wallets.filter((wallet) => wallet.chainId === chainId)
+        : wallets;
+    if (inScope[0] && !inScope.some((wallet) => wallet.isPrimary)) {
+      return setPrimaryWallet(ctx, inScope[0], adapter);
+    }
+
+    const user = (await ctx.context.internalAdapter.findUserById(
+      userId,
+      adapter
+    )) as
+      | (User & PrimaryWalletFields)
+      | null;
+    if (
+      !user ||
+      wallets.some(
+        (wallet) =>
+          wallet.isPrimary &&
+          wallet.address === user.primaryWalletAddress &&
+          wallet.chainId === user.primaryWalletChainId
+      )
+    ) {
+      return null;
+    }
+    const primary = wallets.find((wallet) => wallet.isPrimary);
+    if (!primary && !user.primaryWalletAddress) {
+      return null;
+    }
+    return ctx.context.internalAdapter.updateUser(
+      userId,
+      {
+        primaryWalletAddress: primary?.address ?? null,
+        primaryWalletChainId: primary?.chainId ?? null,
+      },
+      undefined,
+      adapter
+    );
+  };
+
+  return {
+    id: "siwh",
+    init(ctx) {
+      if (options.nonce?.stateless && !ctx.secondaryStorage) {
+        throw new BetterAuthError(
+          "siwh: stateless nonces require `secondaryStorage` to be configured"
+        );
+      }
+      secondaryStorage = ctx.secondaryStorage;
+    },
+    hooks: {
+      after: [
+        {
+          matcher: (ctx) =>
+            !!options.auditLog?.enabled && !!AUTH_EVENT_TYPES[ctx.path],
+          handler: createAuthMiddleware(async (ctx) => {
+            const returned = ctx.context.returned;
+            const error = returned instanceof APIError ? returned : null;
+            const type = AUTH_EVENT_TYPES[ctx.path]!;
+            // Stateless nonces are meant to issue without a write, so only
+            // failed requests for them are recorded
+            if (type === "nonce" && !error && options.nonce?.stateless) {
+              return;
+            }
+            const {
+              walletAddress: rawWalletAddress,
+              chainId = HederaChainId.Mainnet,
+            } = (ctx.body ?? {}) as { walletAddress?: string; chainId?: string };
+
+            // Stored with its checksum, like the wallet itself
+            const checksumResult = rawWalletAddress
+              ? toChecksumAddress(
+                  chainId,
+                  rawWalletAddress,
+                  networks.get(chainId)?.ledgerId
+                )
+              : null;
+            const walletAddress = checksumResult?.isValid
+              ? checksumResult.withChecksumFormat
+              : (rawWalletAddress ?? null);
+
+            // The signed-in user, or for sign-ins the user they signed in
+            // as; otherwise the wallet's owner, so that they see attempts
+            // made with their wallet
+            let userId =
+              (returned as { user?: { id?: string } } | null)?.user?.id ??
+              null;
+            if (!userId && type !== "nonce" && type !== "verify") {
+              userId =
+                (await getSessionFromCtx(ctx, { disableRefresh: true }))?.user
+                  .id ?? null;
+            }
+            if (!userId && walletAddress) {
+              const wallet = await ctx.context.adapter.findOne<WalletAddress>({
+                model: "walletAddress",
+                where: [
+                  { field: "address", operator: "eq", value: walletAddress },
+                  { field: "chainId", operator: "eq", value: chainId },
+                ],
+              });
+              userId = wallet?.userId ?? null;
+            }
+
+            await recordAuthEvent(ctx, {
+              userId,
+              type,
+              success: !error,
+              reason: error
+                ? ((error.body?.code as string | undefined) ?? error.status.toString())
+                : null,
+              walletAddress,
+              chainId,
+            });
           }),
-        metadata: {
-          $Infer: {
-            body: {} as {
-              message: string;
-              signature: string;
-              walletAddress: string;
-              chainId: HederaChainId;
-              isSignUp?: boolean;
-              email?: string;
-              callbackURL?: string;
-              data?: {
-                name: string;
-                password: string;
-              } & AdditionalUserFieldsInput<O>;
-            },
-          },
         },
-        requireRequest: true,
-      },
-      async (ctx) => {
-        const {
-          message,
-          signature: signatureBase64,
-          walletAddress: rawWalletAddress,
-          chainId,
-          isSignUp,
-          email,
-          data,
-          callbackURL,
-        } = ctx.body;
+      ],
+      before: [
+        {
+          // Checks the gate again for sessions fetched after `refreshAge`
+          matcher: (ctx) => !!options.gate && ctx.path === "/get-session",
+          handler: createAuthMiddleware(async (ctx) => {
+            const refreshAge = options.gate!.refreshAge ?? 60 * 60 * 24;
+            const isStale = (session: WalletGateFields) =>
+              !!session.gatedWallet &&
+              Date.now() -
+                (session.walletGateCheckedAt
+                  ? new Date(session.walletGateCheckedAt).getTime()
+                  : 0) >=
+                refreshAge * 1000;
+
+            // Go through the cookie cache first; the database is only read
+            // once the gate check looks stale
+            const cached = await getSessionFromCtx<{}, WalletGateFields>(ctx, {
+              disableRefresh: true,
+            });
+            if (!cached || !isStale(cached.session)) {
+              return;
+            }
+            const current = await ctx.context.internalAdapter.findSession(
+              cached.session.token
+            );
+            const session = current?.session as
+              | (Session & WalletGateFields)
+              | undefined;
+            if (!session || !isStale(session)) {
+              // Another request checked it already; refresh the cookie cache
+              return {
+                context: {
+                  query: { ...ctx.query, disableCookieCache: true },
+                },
+              };
+            }
+            const gatedWallet = session.gatedWallet!;
 
-        // Convert base64 signature to Uint8Array
-        const signature = base64ToSignature(signatureBase64);
+            // `chainId:walletAddress`, where the chain ID contains a colon
+            const separator = gatedWallet.lastIndexOf(":");
+            const chainId = gatedWallet.slice(0, separator);
+            const walletAddress = gatedWallet.slice(separator + 1);
+            const walletClaims = await checkGate(
+              walletAddress.replace(/-[a-z]{5}$/, ""),
+              walletAddress,
+              chainId
+            );
+            if (walletClaims === null) {
+              await ctx.context.internalAdapter.deleteSession(session.token);
+            } else {
+              await ctx.context.internalAdapter.updateSession(
+                session.token,
+                { walletClaims, walletGateCheckedAt: new Date() },
+                ctx
+              );
+            }
 
-        const checksumResult = toChecksumAddress(chainId, rawWalletAddress);
+            // Skip the cookie cache so the change shows up straight away
+            return {
+              context: {
+                query: { ...ctx.query, disableCookieCache: true },
+              },
+            };
+          }),
+        },
+      ],
+    },
+    schema: mergeSchema(schema, options?.schema),
+    $ERROR_CODES: SIWH_ERROR_CODES,
+    endpoints: {
+      getSiwhNonce: createAuthEndpoint(
+        "/siwh/nonce",
+        {
+          method: "POST",
+          body: z.object({
+            walletAddress: walletAddressSchema,
+            chainId: chainIdSchema,
+          }),
+        },
+        async (ctx) => {
+          const {
+            walletAddress: rawWalletAddress,
+            chainId = HederaChainId.Mainnet,
+          } = ctx.body;
+          const { checksumResult } = await resolveWalletAddress(
+            rawWalletAddress,
+            chainId
+          );
 
-        if (!checksumResult.isValid) {
-          throw new APIError("BAD_REQUEST", {
-            message: "Invalid wallet address",
-            status: 400,
-          });
-        }
+          const walletAddress = checksumResult.withChecksumFormat;
+          const nonce = await options.getNonce();
+          const expiresAt = new Date(Date.now() + nonceExpiresIn * 1000);
 
-        const walletAddress = checksumResult.withChecksumFormat;
-        const isAnon = options.anonymous ?? true;
+          if (options.nonce?.stateless) {
+            // Bound to the domain the message will be signed for: the host
+            // of the request's origin, or the first domain without one
+            const origin =
+              ctx.request?.headers.get("origin") ?? ctx.headers?.get("origin");
+            const host = origin && origin !== "null" ? getHost(origin) : null;
+            return ctx.json({
+              nonce: createStatelessNonce(nonce, expiresAt, {
+                secret: ctx.context.secret,
+                address: walletAddress,
+                chainId,
+                domain: host && domains.includes(host) ? host : domains[0]!,
+              }),
+            });
+          }
 
-        if (!isAnon && !email) {
-          throw new APIError("BAD_REQUEST", {
-            message: "Email is required when anonymous is disabled.",
-            status: 400,
+          // Keep room for the new nonce by discarding the oldest ones
+          const identifierPrefix = `siwh:${walletAddress}:${chainId}:`;
+          const outstanding = await ctx.context.adapter.findMany<Verification>({
+            model: "verification",
+            where: [
+              {
+                field: "identifier",
+                operator: "starts_with",
+                value: identifierPrefix,
+              },
+            ],
+            sortBy: { field: "createdAt", direction: "desc" },
           });
+          const discarded = outstanding.slice(
+            Math.max(maxNoncesPerWallet - 1, 0)
+          );
+          if (discarded.length) {
+            await ctx.context.adapter.deleteMany({
+              model: "verification",
+              where: [
+                {
+                  field: "id",
+                  operator: "in",
+                  value: discarded.map((v) => v.id),
+                },
+              ],
+            });
+          }
+
+          // Store nonce with wallet address and chain ID context
+          await ctx.context.internalAdapter.createVerificationValue({
+            identifier: `${identifierPrefix}${nonce}`,
+            value: nonce,
+            expiresAt,
+          });
+
+          return ctx.json({ nonce });
         }
+      ),
+      verifySiwhMessage: createAuthEndpoint(
+        "/siwh/verify",
+        {
+          method: "POST",
+          body: z
+            .object({
+              message: z.string().min(1),
+              signature: z.string().min(1, "Signature is required").optional(),
+              signatures: signaturesSchema.optional(),
+              walletAddress: walletAddressSchema,
+              chainId: chainIdSchema,
+              isSignUp: z.boolean().optional().default(false),
+              email: z.email().optional(),
+              callbackURL: z
+                .string()
+                .meta({
+                  description:
+                    "Callback URL to redirect to after the user has signed in",
+                })
+                .optional(),
+              data: z.record(z.string(), z.any()).optional(),
+            })
+            .refine((data) => options.anonymous !== false || !!data.email, {
+              message:
+                "Email is required when the anonymous plugin option is disabled.",
+              path: ["email"],
+            })
+            .refine(hasSignature, {
+              message: "Signature is required",
+              path: ["signature"],
+            }),
+          metadata: {
+            $Infer: {
+              body: {} as {
+                message: string;
+                signature?: string;
+                signatures?: { publicKey: string; signature: string }[];
+                walletAddress: string;
+                chainId: ChainId;
+                isSignUp?: boolean;
+                email?: string;
+                callbackURL?: string;
+                data?: {
+                  name: string;
+                  password: string;
+                } & AdditionalUserFieldsInput<O>;
+              },
+            },
+          },
+          requireRequest: true,
+          use: [originCheck((ctx) => ctx.body.callbackURL)],
+        },
+        async (ctx) => {
+          const {
+            message,
+            signature: signatureBase64,
+            signatures: signaturePairs,
+            walletAddress: rawWalletAddress,
+            chainId = HederaChainId.Mainnet,
+            isSignUp,
+            email,
+            data,
+            callbackURL,
+          } = ctx.body;
 
-        try {
-          // Find stored nonce with wallet address and chain ID context
-          const verification =
-            await ctx.context.internalAdapter.findVerificationValue(
-              `siwh:${walletAddress}:${chainId}`
+          // Convert base64 signatures to Uint8Array
+          const signatures = decodeSignatures(signatureBase64, signaturePairs);
+
+          const { checksumResult, evmAddress } = await resolveWalletAddress(
+            rawWalletAddress,
+            chainId
+          );
+
+          const walletAddress = checksumResult.withChecksumFormat;
+          const isAnon = options.anonymous ?? true;
+
+          if (!isAnon && !email) {
+            throw siwhError("BAD_REQUEST", "EMAIL_REQUIRED");
+          }
+
+          try {
+            // Check the message fields and nonce, then the signature
+            await verifySignedMessage(ctx, {
+              message,
+              signatures,
+              address: checksumResult.noChecksumFormat,
+              walletAddress,
+              evmAddress,
+              chainId,
+            });
+
+            // Token-gated apps only admit holders, before any user is created
+            const walletClaims = options.gate
+              ? await checkGate(
+                  checksumResult.noChecksumFormat,
+                  walletAddress,
+                  chainId
+                )
+              : undefined;
+            if (walletClaims === null) {
+              throw siwhError("FORBIDDEN", "WALLET_GATE_DENIED");
+            }
+
+            // Look for existing user by their wallet addresses
+            let user: User | null = null;
+
+            // Check if there's a wallet address record for this exact address+chainId combination
+            const existingWalletAddress: WalletAddress | null =
+              await ctx.context.adapter.findOne({
+                model: "walletAddress",
+                where: [
+                  { field: "address", operator: "eq", value: walletAddress },
+                  { field: "chainId", operator: "eq", value: chainId },
+                ],
+              });
+
+            // If isSignUp is true, we don't want to auto-link the wallet to an existing account
+            if (isSignUp && existingWalletAddress) {
+              throw siwhError("UNPROCESSABLE_ENTITY", "WALLET_ALREADY_LINKED");
+            }
+
+            if (existingWalletAddress) {
+              // Get the user associated with this wallet address
+              user = await ctx.context.adapter.findOne({
+                model: "user",
+                where: [
+                  {
+                    field: "id",
+                    operator: "eq",
+                    value: existingWalletAddress.userId,
+                  },
+                ],
+              });
+            } else {
+              // No exact match found, check if this account exists on another
+              // chain and may be used to sign in to that user
+              const anyWalletAddress = await findCrossNetworkWallet(
+                ctx,
+                checksumResult.noChecksumFormat,
+                chainId
+              );
+
+              if (isSignUp && anyWalletAddress) {
+                throw siwhError("UNPROCESSABLE_ENTITY", "WALLET_ALREADY_LINKED");
+              }
+
+              if (anyWalletAddress) {
+                // Same address exists on different chain, get that user
+                user = await ctx.context.adapter.findOne({
+                  model: "user",
+                  where: [
+                    {
+                      field: "id",
+                      operator: "eq",
+                      value: anyWalletAddress.userId,
+                    },
+                  ],
+                });
+              }
+            }
+
+            if (!user) {
+              // No user found, check if auto sign up is enabled
+              if (!options.autoSignUp && !isSignUp) {
+                throw new APIError("UNAUTHORIZED", {
+                  message: BASE_ERROR_CODES.USER_NOT_FOUND,
+                  status: 401,
+                });
+              }
+
+              // Create new user if none exists, using the checksummed
+              // address and chain for email generation
+              const userEmail =
+                email ?? getWalletEmail(ctx, walletAddress, chainId);
+
+              let userData: { name: string; email: string } & Record<
+                string,
+                any
+              > = {
+                name: data?.name ?? walletAddress,
+                email: userEmail,
+              };
+              const beforeSignUp = await options.beforeSignUp?.({
+                user: { name: userData.name, email: userData.email },
+                walletAddress,
+                chainId,
+                ctx,
+              });
+              if (beforeSignUp === false) {
+                throw siwhError("FORBIDDEN", "SIGN_UP_NOT_ALLOWED");
+              }
+              if (typeof beforeSignUp === "object") {
+                userData = { ...userData, ...beforeSignUp.data };
+              }
+
+              // Check if user with this email already exists
+              const dbUser = await ctx.context.internalAdapter.findUserByEmail(
+                userData.email
+              );
+              if (dbUser?.user) {
+                throw new APIError("UNPROCESSABLE_ENTITY", {
+                  message:
+                    BASE_ERROR_CODES.USER_ALREADY_EXISTS_USE_ANOTHER_EMAIL,
+                });
+              }
+
+              const hashedPassword = data?.password
+                ? await ctx.context.password.hash(data.password)
+                : null;
+
+              const hasPlaceholderEmail =
+                userData.email === getWalletEmail(ctx, walletAddress, chainId);
+
+              // Create the user with their wallet and accounts, or nothing
+              user = await runAtomically(ctx, async (adapter, onRollback) => {
+                const newUser = await ctx.context.internalAdapter.createUser(
+                  { ...userData, hasPlaceholderEmail },
+                  ctx,
+                  adapter
+                );
+                onRollback(async () => {
+                  await ctx.context.adapter.deleteMany({
+                    model: "walletAddress",
+                    where: [
+                      { field: "userId", operator: "eq", value: newUser.id },
+                    ],
+                  });
+                  // Also deletes their accounts and sessions
+                  await ctx.context.internalAdapter.deleteUser(newUser.id);
+                });
+
+                // Create wallet address record
+                await adapter.create<WalletAddress>({
+                  model: "walletAddress",
+                  data: {
+                    userId: newUser.id,
+                    address: walletAddress,
+                    evmAddress,
+                    chainId,
+                    isPrimary: false, // Promoted below as the first address
+                    createdAt: new Date(),
+                  },
+                });
+
+                // Create account record for wallet authentication
+                await ctx.context.internalAdapter.createAccount(
+                  {
+                    userId: newUser.id,
+                    providerId: "siwh",
+                    accountId: `${walletAddress}:${chainId}`,
+                    createdAt: new Date(),
+                    updatedAt: new Date(),
+                  },
+                  ctx,
+                  adapter
+                );
+
+                // Create credential account if password is provided
+                if (hashedPassword) {
+                  await ctx.context.internalAdapter.linkAccount(
+                    {
+                      userId: newUser.id,
+                      providerId: "credential",
+                      accountId: newUser.id,
+                      password: hashedPassword,
+                    },
+                    ctx,
+                    adapter
+                  );
+                }
+
+                return (
+                  (await ensurePrimaryWallet(
+                    ctx,
+                    newUser.id,
+                    chainId,
+                    adapter
+                  )) ?? newUser
+                );
+              });
+
+              // Send verification email if required; nobody reads the mail
+              // of a placeholder address
+              if (
+                !hasPlaceholderEmail &&
+                (ctx.context.options.emailVerification?.sendOnSignUp ||
+                  ctx.context.options.emailAndPassword
+                    ?.requireEmailVerification)
+              ) {
+                const token = await createEmailVerificationToken(
+                  ctx.context.secret,
+                  user.email,
+                  undefined,
+                  ctx.context.options.emailVerification?.expiresIn
+                );
+                const _callbackURL = callbackURL
+                  ? encodeURIComponent(callbackURL)
+                  : encodeURIComponent("/");
+                const url = `${ctx.context.baseURL}/verify-email?token=${token}&callbackURL=${_callbackURL}`;
+                const args: Parameters<
+                  Required<
+                    Required<BetterAuthOptions>["emailVerification"]
+                  >["sendVerificationEmail"]
+                > = ctx.request
+                    ? [
+                      {
+                        user: user,
+                        url,
+                        token,
+                      },
+                      ctx.request,
+                    ]
+                    : [
+                      {
+                        user: user,
+                        url,
+                        token,
+                      },
+                    ];
+
+                await ctx.context.options.emailVerification?.sendVerificationEmail?.(
+                  ...args
+                );
+              }
+
+              await options.afterSignUp?.({ user, walletAddress, chainId, ctx });
+
+              // Return user data on sign up without automatic sign in, or
+              // until the email is verified when verification is required.
+              // Placeholder emails can't be verified and wallet sign-ins
+              // don't check them, so those users are signed in right away.
+              if (
+                !options.autoSignIn ||
+                (ctx.context.options.emailAndPassword
+                  ?.requireEmailVerification &&
+                  !hasPlaceholderEmail &&
+                  !user.emailVerified)
+              ) {
+                return ctx.json({
+                  token: null,
+                  user: {
+                    id: user.id,
+                    email: user.email,
+                    name: user.name,
+                    image: user.image,
+                    emailVerified: user.emailVerified,
+                    createdAt: user.createdAt,
+                    updatedAt: user.updatedAt,
+                  },
+                });
+              }
+            } else {
+              // User exists, but check if this specific address/chain combo exists
+              if (!existingWalletAddress) {
+                const userId = user.id;
+                user =
+                  (await runAtomically(ctx, async (adapter, onRollback) => {
+                    // Add this new chainId to existing user's addresses
+                    const wallet = await adapter.create<WalletAddress>({
+                      model: "walletAddress",
+                      data: {
+                        userId,
+                        address: walletAddress,
+                        evmAddress,
+                        chainId,
+                        isPrimary: false, // Only primary if there is none in scope yet
+                        createdAt: new Date(),
+                      },
+                    });
+                    onRollback(() =>
+                      ctx.context.adapter.delete({
+                        model: "walletAddress",
+                        where: [{ field: "id", operator: "eq", value: wallet.id }],
+                      })
+                    );
+
+                    // Create account record for this new wallet+chain combination
+                    const account =
+                      await ctx.context.internalAdapter.createAccount(
+                        {
+                          userId,
+                          providerId: "siwh",
+                          accountId: `${walletAddress}:${chainId}`,
+                          createdAt: new Date(),
+                          updatedAt: new Date(),
+                        },
+                        ctx,
+                        adapter
+                      );
+                    onRollback(() =>
+                      ctx.context.internalAdapter.deleteAccount(account.id)
+                    );
+
+                    return ensurePrimaryWallet(ctx, userId, chainId, adapter);
+                  })) ?? user;
+
+                await options.onWalletLinked?.({
+                  user,
+                  walletAddress,
+                  chainId,
+                  ctx,
+                });
+              }
+            }
+
+            // Signing in from an anonymous session replaces that user
+            const anonymousSession = await getSessionFromCtx<{
+              isAnonymous?: boolean | null;
+            }>(ctx, { disableRefresh: true });
+
+            const session = await ctx.context.internalAdapter.createSession(
+              user.id,
+              ctx,
+              false,
+              walletClaims
+                ? {
+                    gatedWallet: `${chainId}:${walletAddress}`,
+                    walletClaims,
+                    walletGateCheckedAt: new Date(),
+                  }
+                : undefined
             );
 
-          // Ensure nonce is valid and not expired
-          if (!verification || new Date() > verification.expiresAt) {
-            throw new APIError("UNAUTHORIZED", {
-              message: "Invalid or expired nonce",
-              status: 401,
+            if (!session) {
+              throw new APIError("BAD_REQUEST", {
+                message: BASE_ERROR_CODES.FAILED_TO_CREATE_SESSION,
+              });
+            }
+
+            await setSessionCookie(ctx, {
+              session,
+              user: user,
             });
+
+            await options.onSignIn?.({
+              user,
+              session,
+              walletAddress,
+              chainId,
+              ctx,
+            });
+
+            if (
+              anonymousSession?.user.isAnonymous &&
+              anonymousSession.user.id !== user.id
+            ) {
+              await options.onLinkAnonymousAccount?.({
+                anonymousUser: anonymousSession,
+                newUser: { user, session },
+              });
+              if (!options.disableDeleteAnonymousUser) {
+                await ctx.context.internalAdapter.deleteUser(
+                  anonymousSession.user.id
+                );
+              }
+            }
+
+            return ctx.json({
+              redirect: !!callbackURL,
+              token: session.token,
+              url: callbackURL,
+              user: {
+                id: user.id,
+                email: user.email,
+                name: user.name,
+                image: user.image,
+                emailVerified: user.emailVerified,
+                createdAt: user.createdAt,
+                updatedAt: user.updatedAt,
+              },
+            });
+          } catch (error: unknown) {
+            if (error instanceof APIError) throw error;
+            throw new APIError("INTERNAL_SERVER_ERROR", {
+              code: "INTERNAL_ERROR",
+              message: SIWH_ERROR_CODES.INTERNAL_ERROR,
+              error: error instanceof Error ? error.message : "Unknown error",
+              status: 500,
+            });
+          }
+        }
+      ),
+      linkSiwhWallet: createAuthEndpoint(
+        "/siwh/link",
+        {
+          method: "POST",
+          requireHeaders: true,
+          body: z
+            .object({
+              message: z.string().min(1),
+              signature: z.string().min(1, "Signature is required").optional(),
+              signatures: signaturesSchema.optional(),
+              walletAddress: walletAddressSchema,
+              chainId: chainIdSchema,
+            })
+            .refine(hasSignature, {
+              message: "Signature is required",
+              path: ["signature"],
+            }),
+          use: [sessionMiddleware],
+        },
+        async (ctx) => {
+          const {
+            message,
+            signature: signatureBase64,
+            signatures: signaturePairs,
+            walletAddress: rawWalletAddress,
+            chainId = HederaChainId.Mainnet,
+          } = ctx.body;
+
+          // 1. Get and validate current user session
+          const session = ctx.context.session;
+          if (!session?.user) {
+            throw siwhError("UNAUTHORIZED", "SIGN_IN_REQUIRED");
           }
 
-          // Verify SIWH message with enhanced parameters
-          const { value: nonce } = verification;
-          const verified = await options.verifyMessage({
+          // Convert base64 signatures to Uint8Array
+          const signatures = decodeSignatures(signatureBase64, signaturePairs);
+
+          const { checksumResult, evmAddress } = await resolveWalletAddress(
+            rawWalletAddress,
+            chainId
+          );
+
+          const walletAddress = checksumResult.withChecksumFormat;
+
+          try {
+            // 2. Check the message fields and nonce, then the signature
+            await verifySignedMessage(ctx, {
+              message,
+              signatures,
+              address: checksumResult.noChecksumFormat,
+              walletAddress,
+              evmAddress,
+              chainId,
+            });
+
+            // 3. Check if wallet is already linked to ANY user
+            const existingWallet: WalletAddress | null =
+              await ctx.context.adapter.findOne({
+                model: "walletAddress",
+                where: [
+                  { field: "address", operator: "eq", value: walletAddress },
+                  { field: "chainId", operator: "eq", value: chainId },
+                ],
+              });
+
+            if (existingWallet) {
+              if (existingWallet.userId === session.user.id) {
+                throw siwhError("BAD_REQUEST", "WALLET_ALREADY_LINKED_TO_YOU");
+              } else {
+                throw siwhError("CONFLICT", "WALLET_LINKED_TO_ANOTHER_ACCOUNT");
+              }
+            }
+
+            const isAnonymous = !!session.user.isAnonymous;
+            const userEmail = getWalletEmail(ctx, walletAddress, chainId);
+            if (
+              isAnonymous &&
+              (await ctx.context.internalAdapter.findUserByEmail(userEmail))
+            ) {
+              throw new APIError("UNPROCESSABLE_ENTITY", {
+                message: BASE_ERROR_CODES.USER_ALREADY_EXISTS_USE_ANOTHER_EMAIL,
+              });
+            }
+
+            const user = await runAtomically(
+              ctx,
+              async (adapter, onRollback): Promise<User> => {
+                // 4. Link wallet to current user
+                const wallet = await adapter.create<WalletAddress>({
+                  model: "walletAddress",
+                  data: {
+                    userId: session.user.id,
+                    address: walletAddress,
+                    evmAddress,
+                    chainId,
+                    isPrimary: false, // Linked wallets are not primary by default
+                    createdAt: new Date(),
+                  },
+                });
+                onRollback(() =>
+                  ctx.context.adapter.delete({
+                    model: "walletAddress",
+                    where: [{ field: "id", operator: "eq", value: wallet.id }],
+                  })
+                );
+
+                // 5. Create account record for this wallet+chain combination
+                const account = await ctx.context.internalAdapter.createAccount(
+                  {
+                    userId: session.user.id,
+                    providerId: "siwh",
+                    accountId: `${walletAddress}:${chainId}`,
+                    createdAt: new Date(),
+                    updatedAt: new Date(),
+                  },
+                  ctx,
+                  adapter
+                );
+                onRollback(() =>
+                  ctx.context.internalAdapter.deleteAccount(account.id)
+                );
+
+                // 6. Upgrade an anonymous user into a permanent wallet user,
+                // keeping their ID so that their data carries over
+                let user: User = session.user;
+                if (isAnonymous) {
+                  user = await ctx.context.internalAdapter.updateUser(
+                    user.id,
+                    {
+                      isAnonymous: false,
+                      email: userEmail,
+                      name: walletAddress,
+                      hasPlaceholderEmail: true,
+                    },
+                    ctx,
+                    adapter
+                  );
+                  onRollback(() =>
+                    ctx.context.internalAdapter.updateUser(session.user.id, {
+                      isAnonymous: true,
+                      email: session.user.email,
+                      name: session.user.name,
+                      hasPlaceholderEmail:
+                        session.user.hasPlaceholderEmail ?? false,
+                    })
+                  );
+                }
+
+                // 7. Make it primary if the user has none in scope yet
+                return (
+                  (await ensurePrimaryWallet(ctx, user.id, chainId, adapter)) ??
+                  user
+                );
+              }
+            );
+            if (user !== session.user) {
+              await setSessionCookie(ctx, {
+                session: session.session,
+                user,
+              });
+            }
+
+            if (isAnonymous) {
+              await options.onLinkAnonymousAccount?.({
+                anonymousUser: session,
+                newUser: { user, session: session.session },
+              });
+            }
+            await options.onWalletLinked?.({
+              user,
+              walletAddress,
+              chainId,
+              ctx,
+            });
+
+            return ctx.json({
+              success: true,
+              walletAddress,
+              chainId,
+            });
+          } catch (error: unknown) {
+            if (error instanceof APIError) throw error;
+            throw new APIError("INTERNAL_SERVER_ERROR", {
+              code: "INTERNAL_ERROR",
+              message: SIWH_ERROR_CODES.INTERNAL_ERROR,
+              error: error instanceof Error ? error.message : "Unknown error",
+              status: 500,
+            });
+          }
+        }
+      ),
+      mergeSiwhAccount: createAuthEndpoint(
+        "/siwh/merge",
+        {
+          method: "POST",
+          requireHeaders: true,
+          body: z
+            .object({
+              message: z.string().min(1),
+              signature: z.string().min(1, "Signature is required").optional(),
+              signatures: signaturesSchema.optional(),
+              walletAddress: walletAddressSchema,
+              chainId: chainIdSchema,
+            })
+            .refine(hasSignature, {
+              message: "Signature is required",
+              path: ["signature"],
+            }),
+          use: [sessionMiddleware],
+        },
+        async (ctx) => {
+          const {
             message,
-            signature,
-            address: rawWalletAddress,
-            chainId,
-            cacao: {
-              h: { t: "caip122" },
-              p: {
-                domain: options.domain,
-                aud: options.domain,
-                nonce,
-                iss: options.domain,
-                version: "1",
-              },
-              s: {
-                t: "ed25519",
-                s: signature,
-              },
-            },
-          });
+            signature: signatureBase64,
+            signatures: signaturePairs,
+            walletAddress: rawWalletAddress,
+            chainId = HederaChainId.Mainnet,
+          } = ctx.body;
+
+          if (!options.accountMerge?.enabled) {
+            throw siwhError("BAD_REQUEST", "ACCOUNT_MERGE_DISABLED");
+          }
 
-          if (!verified) {
-            throw new APIError("UNAUTHORIZED", {
-              message: "Invalid SIWH signature",
-              status: 401,
-            });
+          // 1. The session proves control of the surviving user
+          const session = ctx.context.session;
+          if (!session?.user) {
+            throw siwhError("UNAUTHORIZED", "SIGN_IN_REQUIRED");
+          }
+          if (session.user.isAnonymous) {
+            throw siwhError("FORBIDDEN", "ANONYMOUS_USER_CANNOT_MERGE");
           }
 
-          // Clean up used nonce
-          await ctx.context.internalAdapter.deleteVerificationValue(
-            verification.id
+          const signatures = decodeSignatures(signatureBase64, signaturePairs);
+          const { checksumResult, evmAddress } = await resolveWalletAddress(
+            rawWalletAddress,
+            chainId
           );
+          const walletAddress = checksumResult.withChecksumFormat;
 
-          // Look for existing user by their wallet addresses
-          let user: User | null = null;
+          try {
+            // 2. A fresh signature proves control of the wallet
+            await verifySignedMessage(ctx, {
+              message,
+              signatures,
+              address: checksumResult.noChecksumFormat,
+              walletAddress,
+              evmAddress,
+              chainId,
+            });
 
-          // Check if there's a wallet address record for this exact address+chainId combination
-          const existingWalletAddress: WalletAddress | null =
-            await ctx.context.adapter.findOne({
+            // 3. Find the user the wallet belongs to
+            const wallet = await ctx.context.adapter.findOne<WalletAddress>({
               model: "walletAddress",
               where: [
                 { field: "address", operator: "eq", value: walletAddress },
                 { field: "chainId", operator: "eq", value: chainId },
               ],
             });
+            if (!wallet) {
+              throw siwhError("BAD_REQUEST", "WALLET_NOT_LINKED_TO_ANY_ACCOUNT");
+            }
+            if (wallet.userId === session.user.id) {
+              throw siwhError("BAD_REQUEST", "WALLET_ALREADY_LINKED_TO_YOU");
+            }
+            const sourceUser = await ctx.context.internalAdapter.findUserById(
+              wallet.userId
+            );
+            if (!sourceUser) {
+              throw new APIError("BAD_REQUEST", {
+                message: BASE_ERROR_CODES.USER_NOT_FOUND,
+              });
+            }
+            const targetUser: User = session.user;
+            const movedWallets =
+              await ctx.context.adapter.findMany<WalletAddress>({
+                model: "walletAddress",
+                where: [
+                  { field: "userId", operator: "eq", value: sourceUser.id },
+                ],
+              });
 
-          // If isSignUp is true, we don't want to auto-link the wallet to an existing account
-          if (isSignUp && existingWalletAddress) {
-            throw new APIError("UNPROCESSABLE_ENTITY", {
-              message: "Wallet already linked to an account",
-              status: 422,
-            });
-          }
+            // 4. Move everything to the surviving user at once
+            await runAtomically(ctx, async (adapter, onRollback) => {
+              const merge = await options.accountMerge!.mergeUsers?.({
+                sourceUser,
+                targetUser,
+                walletAddress,
+                chainId,
+                adapter,
+                ctx,
+              });
+              if (merge === false) {
+                throw siwhError("FORBIDDEN", "ACCOUNT_MERGE_REJECTED");
+              }
+              if (typeof merge === "object") {
+                await adapter.update({
+                  model: "user",
+                  where: [{ field: "id", operator: "eq", value: targetUser.id }],
+                  update: { ...merge.data, updatedAt: new Date() },
+                });
+                onRollback(() =>
+                  ctx.context.adapter.update({
+                    model: "user",
+                    where: [
+                      { field: "id", operator: "eq", value: targetUser.id },
+                    ],
+                    update: Object.fromEntries(
+                      [...Object.keys(merge.data), "updatedAt"].map((key) => [
+                        key,
+                        targetUser[key as keyof User],
+                      ])
+                    ),
+                  })
+                );
+              }
 
-          if (existingWalletAddress) {
-            // Get the user associated with this wallet address
-            user = await ctx.context.adapter.findOne({
-              model: "user",
-              where: [
-                {
-                  field: "id",
-                  operator: "eq",
-                  value: existingWalletAddress.userId,
-                },
-              ],
-            });
-          } else {
-            // No exact match found, check if this address exists on any other chain
-            const anyWalletAddress: WalletAddress | null =
-              await ctx.context.adapter.findOne({
+              // The surviving user keeps their own primary wallet
+              await adapter.updateMany({
                 model: "walletAddress",
                 where: [
-                  { field: "address", operator: "eq", value: walletAddress },
+                  { field: "userId", operator: "eq", value: sourceUser.id },
                 ],
+                update: { userId: targetUser.id, isPrimary: false },
+              });
+              onRollback(async () => {
+                for (const moved of movedWallets) {
+                  await ctx.context.adapter.update({
+                    model: "walletAddress",
+                    where: [{ field: "id", operator: "eq", value: moved.id }],
+                    update: {
+                      userId: sourceUser.id,
+                      isPrimary: moved.isPrimary,
+                    },
+                  });
+                }
               });
 
-            if (isSignUp && anyWalletAddress) {
-              throw new APIError("UNPROCESSABLE_ENTITY", {
-                message: "Wallet already linked to an account",
-                status: 422,
+              // A user can only have one password
+              const targetAccounts = await adapter.findMany<Account>({
+                model: "account",
+                where: [
+                  { field: "userId", operator: "eq", value: targetUser.id },
+                ],
               });
-            }
+              const sourceAccounts = await adapter.findMany<Account>({
+                model: "account",
+                where: [
+                  { field: "userId", operator: "eq", value: sourceUser.id },
+                ],
+              });
+              for (const account of sourceAccounts) {
+                if (
+                  account.providerId === "credential" &&
+                  targetAccounts.some((a) => a.providerId === "credential")
+                ) {
+                  await adapter.delete({
+                    model: "account",
+                    where: [{ field: "id", operator: "eq", value: account.id }],
+                  });
+                  onRollback(() =>
+                    ctx.context.adapter.create({
+                      model: "account",
+                      data: account,
+                      forceAllowId: true,
+                    })
+                  );
+                  continue;
+                }
+                await adapter.update({
+                  model: "account",
+                  where: [{ field: "id", operator: "eq", value: account.id }],
+                  update: { userId: targetUser.id },
+                });
+                onRollback(() =>
+                  ctx.context.adapter.update({
+                    model: "account",
+                    where: [{ field: "id", operator: "eq", value: account.id }],
+                    update: { userId: sourceUser.id },
+                  })
+                );
+              }
 
-            if (anyWalletAddress) {
-              // Same address exists on different chain, get that user
-              user = await ctx.context.adapter.findOne({
-                model: "user",
+              const sourceSessions = await adapter.findMany<Session>({
+                model: "session",
                 where: [
-                  {
-                    field: "id",
-                    operator: "eq",
-                    value: anyWalletAddress.userId,
-                  },
+                  { field: "userId", operator: "eq", value: sourceUser.id },
                 ],
               });
-            }
-          }
+              await adapter.updateMany({
+                model: "session",
+                where: [
+                  { field: "userId", operator: "eq", value: sourceUser.id },
+                ],
+                update: { userId: targetUser.id },
+              });
+              if (sourceSessions.length) {
+                onRollback(() =>
+                  ctx.context.adapter.updateMany({
+                    model: "session",
+                    where: [
+                      {
+                        field: "id",
+                        operator: "in",
+                        value: sourceSessions.map((s) => s.id),
+                      },
+                    ],
+                    update: { userId: sourceUser.id },
+                  })
+                );
+              }
 
-          if (!user) {
-            // No user found, check if auto sign up is enabled
-            if (!options.autoSignUp && !isSignUp) {
-              throw new APIError("UNAUTHORIZED", {
-                message: BASE_ERROR_CODES.USER_NOT_FOUND,
-                status: 401,
+              // Keep the source's audit log, which its deletion would cascade.
+              // The log can outgrow one page, so every page is collected for
+              // the rollback.
+              if (options.auditLog?.enabled) {
+                const sourceEvents: SIWHAuthEvent[] = [];
+                for (;;) {
+                  const page = await adapter.findMany<SIWHAuthEvent>({
+                    model: "siwhAuthEvent",
+                    where: [
+                      { field: "userId", operator: "eq", value: sourceUser.id },
+                    ],
+                    sortBy: { field: "id", direction: "asc" },
+                    limit: 100,
+                    offset: sourceEvents.length,
+                  });
+                  sourceEvents.push(...page);
+                  if (page.length < 100) {
+                    break;
+                  }
+                }
+                await adapter.updateMany({
+                  model: "siwhAuthEvent",
+                  where: [
+                    { field: "userId", operator: "eq", value: sourceUser.id },
+                  ],
+                  update: { userId: targetUser.id },
+                });
+                if (sourceEvents.length) {
+                  onRollback(() =>
+                    ctx.context.adapter.updateMany({
+                      model: "siwhAuthEvent",
+                      where: [
+                        {
+                          field: "id",
+                          operator: "in",
+                          value: sourceEvents.map((event) => event.id),
+                        },
+                      ],
+                      update: { userId: sourceUser.id },
+                    })
+                  );
+                }
+              }
+
+              await adapter.delete({
+                model: "user",
+                where: [{ field: "id", operator: "eq", value: sourceUser.id }],
               });
-            }
+              onRollback(() =>
+                ctx.context.adapter.create({
+                  model: "user",
+                  data: sourceUser,
+                  forceAllowId: true,
+                })
+              );
+            });
 
-            // Create new user if none exists
-            const domain =
-              options.emailDomainName ?? getOrigin(ctx.context.baseURL);
+            // Sessions in secondary storage embed their user, so they can't
+            // be moved and are revoked instead
+            if (ctx.context.options.secondaryStorage) {
+              await ctx.context.internalAdapter.deleteSessions(sourceUser.id);
+            }
 
-            // Use checksummed address for email generation
-            const userEmail = email ? email : `${walletAddress}@${domain}`;
+            // 5. Restore the primary wallet of every chain that gained one
+            let user: User =
+              (await ctx.context.internalAdapter.findUserById(
+                targetUser.id
+              )) ?? targetUser;
+            for (const movedChainId of new Set(
+              movedWallets.map((moved) => moved.chainId)
+            )) {
+              user =
+                (await ensurePrimaryWallet(ctx, targetUser.id, movedChainId)) ??
+                user;
+            }
+            await setSessionCookie(ctx, {
+              session: session.session,
+              user,
+            });
 
-            // Check if user with this email already exists
-            const dbUser = await ctx.context.internalAdapter.findUserByEmail(
-              userEmail
-            );
-            if (dbUser?.user) {
-              throw new APIError("UNPROCESSABLE_ENTITY", {
-                message:
-                  BASE_ERROR_CODES.USER_ALREADY_EXISTS_USE_ANOTHER_EMAIL,
+            for (const moved of movedWallets) {
+              await options.onWalletLinked?.({
+                user,
+                walletAddress: moved.address,
+                chainId: moved.chainId,
+                ctx,
               });
             }
 
-            user = await ctx.context.internalAdapter.createUser({
-              name: data?.name ?? walletAddress,
-              email: userEmail,
+            return ctx.json({
+              success: true,
+              walletAddress,
+              chainId,
+              mergedUserId: sourceUser.id,
             });
-
-            // Create wallet address record
-            await ctx.context.adapter.create({
-              model: "walletAddress",
-              data: {
-                userId: user.id,
-                address: walletAddress,
-                chainId,
-                isPrimary: true, // First address is primary
-                createdAt: new Date(),
-              },
+          } catch (error: unknown) {
+            if (error instanceof APIError) throw error;
+            throw new APIError("INTERNAL_SERVER_ERROR", {
+              code: "INTERNAL_ERROR",
+              message: SIWH_ERROR_CODES.INTERNAL_ERROR,
+              error: error instanceof Error ? error.message : "Unknown error",
+              status: 500,
             });
+          }
+        }
+      ),
+      unlinkSiwhWallet: createAuthEndpoint(
+        "/siwh/unlink",
+        {
+          method: "POST",
+          requireHeaders: true,
+          body: z.object({
+            walletAddress: walletAddressSchema,
+            chainId: chainIdSchema,
+          }),
+          use: [sessionMiddleware],
+        },
+        async (ctx) => {
+          const {
+            walletAddress: rawWalletAddress,
+            chainId = HederaChainId.Mainnet,
+          } = ctx.body;
 
-            // Create account record for wallet authentication
-            await ctx.context.internalAdapter.createAccount({
-              userId: user.id,
-              providerId: "siwh",
-              accountId: `${walletAddress}:${chainId}`,
-              createdAt: new Date(),
-              updatedAt: new Date(),
-            });
+          // 1. Get and validate current user session
+          const session = ctx.context.session;
+          if (!session?.user) {
+            throw siwhError("UNAUTHORIZED", "SIGN_IN_REQUIRED");
+          }
 
-            // Create credential account if password is provided
-            if (data?.password) {
-              const hashedPassword = await ctx.context.password.hash(
-                data.password
-              );
-              await ctx.context.internalAdapter.linkAccount({
-                userId: user.id,
-                providerId: "credential",
-                accountId: user.id,
-                password: hashedPassword,
-              });
-            }
+          const { checksumResult } = await resolveWalletAddress(
+            rawWalletAddress,
+            chainId
+          );
+
+          const walletAddress = checksumResult.withChecksumFormat;
 
-            // Send verification email if required
+          try {
+            const accounts = await ctx.context.internalAdapter.findAccounts(
+              ctx.context.session.user.id
+            );
             if (
-              ctx.context.options.emailVerification?.sendOnSignUp ||
-              ctx.context.options.emailAndPassword?.requireEmailVerification
+              accounts.length === 1 &&
+              !ctx.context.options.account?.accountLinking?.allowUnlinkingAll
             ) {
-              const token = await createEmailVerificationToken(
-                ctx.context.secret,
-                user.email,
-                undefined,
-                ctx.context.options.emailVerification?.expiresIn
-              );
-              const _callbackURL = callbackURL
-                ? encodeURIComponent(callbackURL)
-                : encodeURIComponent("/");
-              const url = `${ctx.context.baseURL}/verify-email?token=${token}&callbackURL=${_callbackURL}`;
-              const args: Parameters<
-                Required<
-                  Required<BetterAuthOptions>["emailVerification"]
-                >["sendVerificationEmail"]
-              > = ctx.request
-                  ? [
-                    {
-                      user: user,
-                      url,
-                      token,
-                    },
-                    ctx.request,
-                  ]
-                  : [
-                    {
-                      user: user,
-                      url,
-                      token,
-                    },
-                  ];
+              throw new APIError("BAD_REQUEST", {
+                message: BASE_ERROR_CODES.FAILED_TO_UNLINK_LAST_ACCOUNT,
+              });
+            }
 
-              await ctx.context.options.emailVerification?.sendVerificationEmail?.(
-                ...args
-              );
+            const accountExist = accounts.find(
+              (account) =>
+                account.accountId === `${walletAddress}:${chainId}` &&
+                account.providerId === "siwh"
+            );
+            if (!accountExist) {
+              throw new APIError("BAD_REQUEST", {
+                message: BASE_ERROR_CODES.ACCOUNT_NOT_FOUND,
+              });
             }
 
-            // Return user data on sign up without automatic sign in
-            return ctx.json({
-              token: null,
-              user: {
-                id: user.id,
-                email: user.email,
-                name: user.name,
-                image: user.image,
-                emailVerified: user.emailVerified,
-                createdAt: user.createdAt,
-                updatedAt: user.updatedAt,
-              },
+            const wallet = await ctx.context.adapter.findOne<WalletAddress>({
+              model: "walletAddress",
+              where: [
+                { field: "address", operator: "eq", value: walletAddress },
+                { field: "chainId", operator: "eq", value: chainId },
+              ],
             });
-          } else {
-            // User exists, but check if this specific address/chain combo exists
-            if (!existingWalletAddress) {
-              // Add this new chainId to existing user's addresses
-              await ctx.context.adapter.create({
-                model: "walletAddress",
-                data: {
-                  userId: user.id,
-                  address: walletAddress,
-                  chainId,
-                  isPrimary: false, // Additional addresses are not primary by default
-                  createdAt: new Date(),
-                },
-              });
 
-              // Create account record for this new wallet+chain combination
-              await ctx.context.internalAdapter.createAccount({
-                userId: user.id,
-                providerId: "siwh",
-                accountId: `${walletAddress}:${chainId}`,
-                createdAt: new Date(),
-                updatedAt: new Date(),
+            const updatedUser = await runAtomically(
+              ctx,
+              async (adapter, onRollback) => {
+                if (wallet) {
+                  await adapter.delete({
+                    model: "walletAddress",
+                    where: [{ field: "id", operator: "eq", value: wallet.id }],
+                  });
+                  onRollback(() =>
+                    ctx.context.adapter.create({
+                      model: "walletAddress",
+                      data: wallet,
+                      forceAllowId: true,
+                    })
+                  );
+                }
+
+                await ctx.context.internalAdapter.deleteAccount(
+                  accountExist.id,
+                  adapter
+                );
+                onRollback(() =>
+                  ctx.context.adapter.create({
+                    model: "account",
+                    data: accountExist,
+                    forceAllowId: true,
+                  })
+                );
+
+                // Promote another wallet if this one was primary
+                return ensurePrimaryWallet(
+                  ctx,
+                  session.user.id,
+                  chainId,
+                  adapter
+                );
+              }
+            );
+            if (updatedUser) {
+              await setSessionCookie(ctx, {
+                session: session.session,
+                user: updatedUser,
               });
             }
-          }
 
-          const session = await ctx.context.internalAdapter.createSession(
-            user.id,
-            ctx
-          );
+            await options.onWalletUnlinked?.({
+              user: updatedUser ?? session.user,
+              walletAddress,
+              chainId,
+              ctx,
+            });
 
-          if (!session) {
-            throw new APIError("BAD_REQUEST", {
-              message: BASE_ERROR_CODES.FAILED_TO_CREATE_SESSION,
+            return ctx.json({
+              success: true,
+            });
+          } catch (error: unknown) {
+            if (error instanceof APIError) throw error;
+            throw new APIError("INTERNAL_SERVER_ERROR", {
+              code: "INTERNAL_ERROR",
+              message: SIWH_ERROR_CODES.INTERNAL_ERROR,
+              error: error instanceof Error ? error.message : "Unknown error",
+              status: 500,
             });
           }
-
-          await setSessionCookie(ctx, {
-            session,
-            user: user,
-          });
-
-          return ctx.json({
-            redirect: !!callbackURL,
-            token: session.token,
-            url: callbackURL,
-            user: {
-              id: user.id,
-              email: user.email,
-              name: user.name,
-              image: user.image,
-              emailVerified: user.emailVerified,
-              createdAt: user.createdAt,
-              updatedAt: user.updatedAt,
-            },
-          });
-        } catch (error: unknown) {
-          if (error instanceof APIError) throw error;
-          throw new APIError("INTERNAL_SERVER_ERROR", {
-            message: "Something went wrong. Please try again later.",
-            error: error instanceof Error ? error.message : "Unknown error",
-            status: 500,
-          });
-        }
-      }
-    ),
-    linkSiwhWallet: createAuthEndpoint(
-      "/siwh/link",
-      {
-        method: "POST",
-        requireHeaders: true,
-        body: z.object({
-          message: z.string().min(1),
-          signature: z.string().min(1, "Signature is required"),
-          walletAddress: z
-            .string()
-            .regex(
-              /^(0|(?:[1-9]\d*))\.(0|(?:[1-9]\d*))\.(0|(?:[1-9]\d*))$/,
-              "Invalid Hedera account ID format. Expected format: 0.0.123"
-            ),
-          chainId: z
-            .enum([
-              HederaChainId.Mainnet,
-              HederaChainId.Testnet,
-              HederaChainId.Previewnet,
-              HederaChainId.Devnet,
-            ])
-            .optional()
-            .default(HederaChainId.Mainnet),
-        }),
-        use: [sessionMiddleware],
-      },
-      async (ctx) => {
-        const {
-          message,
-          signature: signatureBase64,
-          walletAddress: rawWalletAddress,
-          chainId,
-        } = ctx.body;
-
-        // 1. Get and validate current user session
-        const session = ctx.context.session;
-        if (!session?.user) {
-          throw new APIError("UNAUTHORIZED", {
-            message: "You must be signed in to link a wallet",
-            status: 401,
-          });
-        }
-
-        // 2. Prevent anonymous users from linking wallets
-        if (session.user?.isAnonymous) {
-          throw new APIError("FORBIDDEN", {
-            message:
-              "Anonymous users cannot link wallets. Please create a permanent account first.",
-            status: 403,
-          });
         }
+      ),
+      setPrimarySiwhWallet: createAuthEndpoint(
+        "/siwh/set-primary",
+        {
+          method: "POST",
+          body: z.object({
+            walletAddress: walletAddressSchema,
+            chainId: chainIdSchema,
+          }),
+          use: [sessionMiddleware],
+        },
+        async (ctx) => {
+          const {
+            walletAddress: rawWalletAddress,
+            chainId = HederaChainId.Mainnet,
+          } = ctx.body;
 
-        // Convert base64 signature to Uint8Array
-        const signature = base64ToSignature(signatureBase64);
-
-        const checksumResult = toChecksumAddress(chainId, rawWalletAddress);
+          const session = ctx.context.session;
+          if (!session?.user) {
+            throw siwhError("UNAUTHORIZED", "SIGN_IN_REQUIRED");
+          }
 
-        if (!checksumResult.isValid) {
-          throw new APIError("BAD_REQUEST", {
-            message: "Invalid wallet address",
-            status: 400,
-          });
-        }
+          const { checksumResult } = await resolveWalletAddress(
+            rawWalletAddress,
+            chainId
+          );
 
-        const walletAddress = checksumResult.withChecksumFormat;
+          try {
+            const wallet = await ctx.context.adapter.findOne<WalletAddress>({
+              model: "walletAddress",
+              where: [
+                { field: "userId", operator: "eq", value: session.user.id },
+                {
+                  field: "address",
+                  operator: "eq",
+                  value: checksumResult.withChecksumFormat,
+                },
+                { field: "chainId", operator: "eq", value: chainId },
+              ],
+            });
+            if (!wallet) {
+              throw siwhError("NOT_FOUND", "WALLET_NOT_LINKED");
+            }
 
-        try {
-          // 3. Find stored nonce with wallet address and chain ID context
-          const verification =
-            await ctx.context.internalAdapter.findVerificationValue(
-              `siwh:${walletAddress}:${chainId}`
+            const user = await runAtomically(ctx, (adapter) =>
+              setPrimaryWallet(ctx, wallet, adapter)
             );
+            await setSessionCookie(ctx, {
+              session: session.session,
+              user,
+            });
 
-          // Ensure nonce is valid and not expired
-          if (!verification || new Date() > verification.expiresAt) {
-            throw new APIError("UNAUTHORIZED", {
-              message: "Invalid or expired nonce",
-              status: 401,
+            return ctx.json({
+              success: true,
+              walletAddress: wallet.address,
+              chainId,
+            });
+          } catch (error: unknown) {
+            if (error instanceof APIError) throw error;
+            throw new APIError("INTERNAL_SERVER_ERROR", {
+              code: "INTERNAL_ERROR",
+              message: SIWH_ERROR_CODES.INTERNAL_ERROR,
+              error: error instanceof Error ? error.message : "Unknown error",
+              status: 500,
             });
           }
-
-          // 4. Verify SIWH message
-          const { value: nonce } = verification;
-          const verified = await options.verifyMessage({
+        }
+      ),
+      stepUpSiwh: createAuthEndpoint(
+        "/siwh/step-up",
+        {
+          method: "POST",
+          body: z
+            .object({
+              message: z.string().min(1),
+              signature: z.string().min(1, "Signature is required").optional(),
+              signatures: signaturesSchema.optional(),
+              walletAddress: walletAddressSchema,
+              chainId: chainIdSchema,
+            })
+            .refine(hasSignature, {
+              message: "Signature is required",
+              path: ["signature"],
+            }),
+          use: [sessionMiddleware],
+        },
+        async (ctx) => {
+          const {
             message,
-            signature,
-            address: rawWalletAddress,
-            chainId,
-            cacao: {
-              h: { t: "caip122" },
-              p: {
-                domain: options.domain,
-                aud: options.domain,
-                nonce,
-                iss: options.domain,
-                version: "1",
-              },
-              s: {
-                t: "ed25519",
-                s: signature,
-              },
-            },
-          });
+            signature: signatureBase64,
+            signatures: signaturePairs,
+            walletAddress: rawWalletAddress,
+            chainId = HederaChainId.Mainnet,
+          } = ctx.body;
 
-          if (!verified) {
-            throw new APIError("UNAUTHORIZED", {
-              message: "Invalid SIWH signature",
-              status: 401,
-            });
+          const session = ctx.context.session;
+          if (!session?.user) {
+            throw siwhError("UNAUTHORIZED", "SIGN_IN_REQUIRED");
           }
 
-          // Clean up used nonce
-          await ctx.context.internalAdapter.deleteVerificationValue(
-            verification.id
+          const signatures = decodeSignatures(signatureBase64, signaturePairs);
+          const { checksumResult, evmAddress } = await resolveWalletAddress(
+            rawWalletAddress,
+            chainId
           );
+          const walletAddress = checksumResult.withChecksumFormat;
 
-          // 5. Check if wallet is already linked to ANY user
-          const existingWallet: WalletAddress | null =
-            await ctx.context.adapter.findOne({
+          try {
+            // Only the user's own wallets can step up their session
+            const wallet = await ctx.context.adapter.findOne<WalletAddress>({
               model: "walletAddress",
               where: [
+                { field: "userId", operator: "eq", value: session.user.id },
                 { field: "address", operator: "eq", value: walletAddress },
                 { field: "chainId", operator: "eq", value: chainId },
               ],
             });
+            if (!wallet) {
+              throw siwhError("FORBIDDEN", "WALLET_NOT_LINKED");
+            }
+
+            await verifySignedMessage(ctx, {
+              message,
+              signatures,
+              address: checksumResult.noChecksumFormat,
+              walletAddress,
+              evmAddress,
+              chainId,
+            });
 
-          if (existingWallet) {
-            if (existingWallet.userId === session.user.id) {
-              throw new APIError("BAD_REQUEST", {
-                message: "This wallet is already linked to your account",
-                status: 400,
-              });
-            } else {
-              throw new APIError("CONFLICT", {
-                message: "This wallet is already linked to another account",
-                status: 409,
+            const walletVerifiedAt = new Date();
+            const updatedSession =
+              await ctx.context.internalAdapter.updateSession(
+                session.session.token,
+                { walletVerifiedAt },
+                ctx
+              );
+            if (updatedSession) {
+              await setSessionCookie(ctx, {
+                session: updatedSession,
+                user: session.user,
               });
             }
-          }
 
-          // 6. Link wallet to current user
-          await ctx.context.adapter.create({
-            model: "walletAddress",
-            data: {
-              userId: session.user.id,
-              address: walletAddress,
+            return ctx.json({
+              success: true,
+              walletAddress,
               chainId,
-              isPrimary: false, // Linked wallets are not primary by default
-              createdAt: new Date(),
-            },
-          });
+              walletVerifiedAt,
+            });
+          } catch (error: unknown) {
+            if (error instanceof APIError) throw error;
+            throw new APIError("INTERNAL_SERVER_ERROR", {
+              code: "INTERNAL_ERROR",
+              message: SIWH_ERROR_CODES.INTERNAL_ERROR,
+              error: error instanceof Error ? error.message : "Unknown error",
+              status: 500,
+            });
+          }
+        }
+      ),
+      listSiwhWallets: createAuthEndpoint(
+        "/siwh/wallets",
+        {
+          method: "GET",
+          use: [sessionMiddleware],
+        },
+        async (ctx) => {
+          const session = ctx.context.session;
+          if (!session?.user) {
+            throw siwhError("UNAUTHORIZED", "SIGN_IN_REQUIRED");
+          }
 
-          // 7. Create account record for this wallet+chain combination
-          await ctx.context.internalAdapter.createAccount({
-            userId: session.user.id,
-            providerId: "siwh",
-            accountId: `${walletAddress}:${chainId}`,
-            createdAt: new Date(),
-            updatedAt: new Date(),
+          const wallets = await ctx.context.adapter.findMany<WalletAddress>({
+            model: "walletAddress",
+            where: [{ field: "userId", operator: "eq", value: session.user.id }],
+            sortBy: { field: "createdAt", direction: "asc" },
           });
 
-          return ctx.json({
-            success: true,
-            walletAddress,
-            chainId,
-          });
-        } catch (error: unknown) {
-          if (error instanceof APIError) throw error;
-          throw new APIError("INTERNAL_SERVER_ERROR", {
-            message: "Something went wrong. Please try again later.",
-            error: error instanceof Error ? error.message : "Unknown error",
-            status: 500,
-          });
+          return ctx.json(
+            wallets.map(
+              (wallet): LinkedWallet => ({
+                id: wallet.id,
+                address: wallet.address.replace(/-[a-z]{5}$/, ""),
+                checksumAddress: wallet.address,
+                evmAddress: wallet.evmAddress ?? null,
+                chainId: wallet.chainId,
+                isPrimary: wallet.isPrimary,
+                createdAt: wallet.createdAt,
+              })
+            )
+          );
         }
-      }
-    ),
-    unlinkSiwhWallet: createAuthEndpoint(
-      "/siwh/unlink",
-      {
-        method: "POST",
-        requireHeaders: true,
-        body: z.object({
-          walletAddress: z
-            .string()
-            .regex(
-              /^(0|(?:[1-9]\d*))\.(0|(?:[1-9]\d*))\.(0|(?:[1-9]\d*))$/,
-              "Invalid Hedera account ID format. Expected format: 0.0.123"
+      ),
+      requestSiwhEmail: createAuthEndpoint(
+        "/siwh/email",
+        {
+          method: "POST",
+          body: z.object({
+            email: z.email(),
+            callbackURL: z
+              .string()
+              .meta({
+                description:
+                  "Callback URL to redirect to after the email is verified",
+              })
+              .optional(),
+          }),
+          use: [sessionMiddleware],
+        },
+        async (ctx) => {
+          const session = ctx.context.session;
+          if (!session?.user) {
+            throw siwhError("UNAUTHORIZED", "SIGN_IN_REQUIRED");
+          }
+
+          const sendVerificationEmail =
+            ctx.context.options.emailVerification?.sendVerificationEmail;
+          if (!sendVerificationEmail) {
+            throw siwhError("BAD_REQUEST", "VERIFICATION_EMAIL_NOT_ENABLED");
+          }
+          // Only replaces placeholder emails; a real email goes through
+          // better-auth's change-email flow, which confirms the old one
+          if (!session.user.hasPlaceholderEmail) {
+            throw siwhError("FORBIDDEN", "PLACEHOLDER_EMAIL_REQUIRED");
+          }
+
+          const email = ctx.body.email.toLowerCase();
+          if (email === session.user.email) {
+            throw siwhError("BAD_REQUEST", "EMAIL_ALREADY_SET");
+          }
+          if (await ctx.context.internalAdapter.findUserByEmail(email)) {
+            throw new APIError("UNPROCESSABLE_ENTITY", {
+              message: BASE_ERROR_CODES.USER_ALREADY_EXISTS_USE_ANOTHER_EMAIL,
+            });
+          }
+
+          // The email only replaces the current one once it is verified
+          const token = generateRandomString(32, "a-z", "A-Z", "0-9");
+          await ctx.context.internalAdapter.createVerificationValue({
+            identifier: `siwh-email:${token}`,
+            value: JSON.stringify({ userId: session.user.id, email }),
+            expiresAt: new Date(
+              Date.now() +
+                (ctx.context.options.emailVerification?.expiresIn ?? 3600) *
+                  1000
             ),
-          chainId: z
-            .enum([
-              HederaChainId.Mainnet,
-              HederaChainId.Testnet,
-              HederaChainId.Previewnet,
-              HederaChainId.Devnet,
-            ])
-            .optional()
-            .default(HederaChainId.Mainnet),
-        }),
-        use: [sessionMiddleware],
-      },
-      async (ctx) => {
-        const { walletAddress: rawWalletAddress, chainId } = ctx.body;
-
-        // 1. Get and validate current user session
-        const session = ctx.context.session;
-        if (!session?.user) {
-          throw new APIError("UNAUTHORIZED", {
-            message: "You must be signed in to link a wallet",
-            status: 401,
           });
-        }
 
-        const checksumResult = toChecksumAddress(chainId, rawWalletAddress);
+          const url = `${ctx.context.baseURL}/siwh/email/verify?token=${token}&callbackURL=${encodeURIComponent(
+            ctx.body.callbackURL ?? "/"
+          )}`;
+          await sendVerificationEmail(
+            { user: { ...session.user, email }, url, token },
+            ctx.request
+          );
 
-        if (!checksumResult.isValid) {
-          throw new APIError("BAD_REQUEST", {
-            message: "Invalid wallet address",
-            status: 400,
-          });
+          return ctx.json({ status: true });
         }
+      ),
+      verifySiwhEmail: createAuthEndpoint(
+        "/siwh/email/verify",
+        {
+          method: "GET",
+          query: z.object({
+            token: z.string(),
+            callbackURL: z.string().optional(),
+          }),
+          use: [originCheck((ctx) => ctx.query.callbackURL)],
+        },
+        async (ctx) => {
+          const { token, callbackURL } = ctx.query;
+          const redirectOnError = (
+            code: keyof typeof SIWH_ERROR_CODES
+          ): never => {
+            if (callbackURL) {
+              throw ctx.redirect(
+                `${callbackURL}${callbackURL.includes("?") ? "&" : "?"}error=${code.toLowerCase()}`
+              );
+            }
+            throw siwhError("UNAUTHORIZED", code);
+          };
 
-        const walletAddress = checksumResult.withChecksumFormat;
-
-        try {
-          const accounts = await ctx.context.internalAdapter.findAccounts(
-            ctx.context.session.user.id
+          const verification =
+            await ctx.context.internalAdapter.findVerificationValue(
+              `siwh-email:${token}`
+            );
+          if (!verification) {
+            return redirectOnError("INVALID_TOKEN");
+          }
+          await ctx.context.internalAdapter.deleteVerificationValue(
+            verification.id
           );
-          if (
-            accounts.length === 1 &&
-            !ctx.context.options.account?.accountLinking?.allowUnlinkingAll
-          ) {
-            throw new APIError("BAD_REQUEST", {
-              message: BASE_ERROR_CODES.FAILED_TO_UNLINK_LAST_ACCOUNT,
-            });
+          if (new Date() > verification.expiresAt) {
+            return redirectOnError("TOKEN_EXPIRED");
           }
 
-          const accountExist = accounts.find(
-            (account) =>
-              account.accountId === `${walletAddress}:${chainId}` &&
-              account.providerId === "siwh"
+          const { userId, email } = JSON.parse(verification.value) as {
+            userId: string;
+            email: string;
+          };
+          if (await ctx.context.internalAdapter.findUserByEmail(email)) {
+            return redirectOnError("EMAIL_ALREADY_IN_USE");
+          }
+          const currentUser = (await ctx.context.internalAdapter.findUserById(
+            userId
+          )) as (User & { hasPlaceholderEmail?: boolean }) | null;
+          if (!currentUser) {
+            return redirectOnError("USER_NOT_FOUND");
+          }
+          // The user may have set an email another way since the request
+          if (!currentUser.hasPlaceholderEmail) {
+            return redirectOnError("PLACEHOLDER_EMAIL_REQUIRED");
+          }
+          const user = await ctx.context.internalAdapter.updateUser(
+            userId,
+            { email, emailVerified: true, hasPlaceholderEmail: false },
+            ctx
           );
-          if (!accountExist) {
-            throw new APIError("BAD_REQUEST", {
-              message: BASE_ERROR_CODES.ACCOUNT_NOT_FOUND,
-            });
+          if (!user) {
+            return redirectOnError("USER_NOT_FOUND");
           }
 
-          await ctx.context.internalAdapter.deleteAccount(accountExist.id);
-          await ctx.context.adapter.delete({
-            model: "walletAddress",
-            where: [
-              { field: "address", operator: "eq", value: walletAddress },
-              { field: "chainId", operator: "eq", value: chainId },
-            ],
-          });
+          // Refresh the cookie when the user verifies in the same browser
+          const session = await getSessionFromCtx(ctx);
+          if (session?.user.id === userId) {
+            await setSessionCookie(ctx, { session: session.session, user });
+          }
 
-          return ctx.json({
-            success: true,
-          });
-        } catch (error: unknown) {
-          if (error instanceof APIError) throw error;
-          throw new APIError("INTERNAL_SERVER_ERROR", {
-            message: "Something went wrong. Please try again later.",
-            error: error instanceof Error ? error.message : "Unknown error",
-            status: 500,
+          if (callbackURL) {
+            throw ctx.redirect(callbackURL);
+          }
+          return ctx.json({ status: true, user });
+        }
+      ),
+      listSiwhAuthEvents: createAuthEndpoint(
+        "/siwh/events",
+        {
+          method: "GET",
+          query: z
+            .object({
+              limit: z.coerce.number().int().min(1).max(100).optional(),
+              offset: z.coerce.number().int().min(0).optional(),
+            })
+            .optional(),
+          use: [sessionMiddleware],
+        },
+        async (ctx) => {
+          const session = ctx.context.session;
+          if (!session?.user) {
+            throw siwhError("UNAUTHORIZED", "SIGN_IN_REQUIRED");
+          }
+
+          const events = await ctx.context.adapter.findMany<SIWHAuthEvent>({
+            model: "siwhAuthEvent",
+            where: [{ field: "userId", operator: "eq", value: session.user.id }],
+            sortBy: { field: "createdAt", direction: "desc" },
+            limit: ctx.query?.limit ?? 50,
+            offset: ctx.query?.offset,
           });
+          return ctx.json(events);
         }
-      }
-    ),
-  },
-} satisfies BetterAuthPlugin);
+      ),
+    },
+  } satisfies BetterAuthPlugin;
+};
@@ -7,21 +7,139 @@ export enum HederaChainId {
   Devnet = "hedera:devnet",
 }
 
+export interface HederaNetwork<ChainId extends string = string> {
+  /** CAIP-2 chain ID in the `hedera` namespace, e.g. `hedera:local` */
+  chainId: ChainId;
+  /** Hex-encoded ledger ID, used for account ID checksums, e.g. `"00"` */
+  ledgerId: string;
+  /** Mirror node REST base URL, used by the mirror node resolvers */
+  mirrorNodeUrl?: string;
+  name?: string;
+}
+
+export type HederaKeyType = "ed25519" | "ecdsa_secp256k1";
+
+export interface HederaPublicKey {
+  type: HederaKeyType;
+  // Hex-encoded, raw or DER
+  key: string;
+}
+
+// KeyList or threshold key; every key must sign when threshold is omitted
+export interface HederaKeyList {
+  type: "keyList";
+  keys: HederaKey[];
+  threshold?: number;
+}
+
+export type HederaKey = HederaPublicKey | HederaKeyList;
+
+// "eip191" signatures come from EVM wallets signing for an ECDSA key
+export type SignatureType = HederaKeyType | "eip191";
+
+export interface HederaSignature {
+  // Hex-encoded key (or key prefix) that made the signature, raw or DER;
+  // tried against every key of the account when omitted
+  publicKey?: string;
+  type?: SignatureType;
+  signature: Uint8Array;
+}
+
+// What a `HederaSigner` returns: raw signature bytes, a base64 string as-is
+// (e.g. a WalletConnect SignatureMap), or one signature per key of a KeyList
+export type HederaSignerSignature =
+  | Uint8Array
+  | string
+  | { publicKey: string; signature: Uint8Array | string }[];
+
+/**
+ * Anything that can sign a SIWH message with a Hedera account, such as a
+ * HashConnect or WalletConnect session
+ */
+export interface HederaSigner {
+  /**
+   * Signs the UTF-8 bytes of the message. Like Hedera wallets, the signer
+   * applies the Hedera signed-message prefix itself.
+   */
+  sign(message: Uint8Array): Promise<HederaSignerSignature>;
+}
+
+// `network` is the plugin's registry entry for the chain, if any
+export type AccountKeyResolver = (
+  address: string,
+  chainId: string,
+  network?: HederaNetwork
+) => Promise<HederaKey | null>;
+
+// Maps an EVM address (e.g. an ECDSA alias) to its `shard.realm.num` account ID
+export type EvmAddressResolver = (
+  evmAddress: string,
+  chainId: string,
+  network?: HederaNetwork
+) => Promise<string | null>;
+
+// Balance of a token held by an account, in the token's smallest unit; for
+// NFT collections, the number of NFTs held
+export type TokenBalanceResolver = (
+  address: string,
+  tokenId: string,
+  chainId: string,
+  network?: HederaNetwork
+) => Promise<number>;
+
 export interface WalletAddress {
   id: string;
   userId: string;
   address: string;
-  chainId: number;
+  evmAddress?: string | null;
+  chainId: string;
   isPrimary: boolean;
   createdAt: Date;
 }
 
-interface CacaoHeader {
+/**
+ * A wallet as returned by `GET /siwh/wallets`
+ */
+export interface LinkedWallet {
+  id: string;
+  /** Account ID without checksum, e.g. `0.0.123` */
+  address: string;
+  /** Account ID with checksum, as stored, e.g. `0.0.123-vfmkw` */
+  checksumAddress: string;
+  evmAddress: string | null;
+  chainId: string;
+  isPrimary: boolean;
+  createdAt: Date;
+}
+
+export type SIWHAuthEventType =
+  | "nonce"
+  | "verify"
+  | "link"
+  | "unlink"
+  | "merge"
+  | "step-up";
+
+export interface SIWHAuthEvent {
+  id: string;
+  userId: string | null;
+  type: SIWHAuthEventType;
+  success: boolean;
+  /** Error code of a failed attempt, e.g. `INVALID_SIWH_SIGNATURE` */
+  reason: string | null;
+  walletAddress: string | null;
+  chainId: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+}
+
+export interface CacaoHeader {
   t: "caip122";
 }
 
 // Signed Cacao (CAIP-74)
-interface CacaoPayload {
+export interface CacaoPayload {
   domain: string;
   aud: string;
   nonce: string;
@@ -36,11 +154,11 @@ interface CacaoPayload {
   type?: string;
 }
 
-interface Cacao {
+export interface Cacao {
   h: CacaoHeader;
   p: CacaoPayload;
   s: {
-    t: "ed25519" | "ecdsa_secp256k1"; // NOT "eip191" or "eip1271"
+    t: SignatureType; // NOT "eip1271"
     s: Uint8Array;
     m?: string;
   };
@@ -49,6 +167,7 @@ interface Cacao {
 export interface SIWHVerifyMessageArgs {
   message: string;
   signature: Uint8Array;
+  signatures: HederaSignature[];
   address: string;
   chainId: string;
   cacao?: Cacao;
@@ -0,0 +1,119 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Exponential Science Foundation and contributors
+import { toChecksumAddress } from "./hashing";
+
+export type AccountIdParseResult =
+  | {
+      success: true;
+      shard: number;
+      realm: number;
+      num: number;
+      /** `shard.realm.num`, without checksum */
+      accountId: string;
+      /** The checksum given in the input, if any */
+      checksum?: string;
+    }
+  | { success: false; error: string };
+
+const ACCOUNT_ID_REGEX =
+  /^(0|(?:[1-9]\d*))\.(0|(?:[1-9]\d*))\.(0|(?:[1-9]\d*))(?:-[a-z]{5})?$/;
+const EVM_ADDRESS_REGEX = /^0x[0-9a-fA-F]{40}$/;
+
+export function isEvmAddress(address: string): boolean {
+  return EVM_ADDRESS_REGEX.test(address);
+}
+
+/**
+ * Decodes a long-zero EVM address (`0x` + 12 zero bytes + 8-byte account
+ * number) into its `0.0.num` account ID
+ *
+ * @returns The account ID, or `null` for any other EVM address, such as an
+ * ECDSA alias, which has to be looked up on the network
+ */
+export function longZeroToAccountId(evmAddress: string): string | null {
+  if (!isEvmAddress(evmAddress)) {
+    return null;
+  }
+  const hex = evmAddress.slice(2);
+  if (!/^0{24}/.test(hex)) {
+    return null;
+  }
+  return `0.0.${BigInt(`0x${hex.slice(24)}`)}`;
+}
+
+/**
+ * Encodes a `0.0.num` account ID as its long-zero EVM address
+ *
+ * @returns The EVM address, or `null` if the account is not in shard 0,
+ * realm 0
+ */
+export function accountIdToLongZero(accountId: string): string | null {
+  const match = accountId.match(/^0\.0\.(0|[1-9]\d*)(?:-[a-z]{5})?$/);
+  if (!match) {
+    return null;
+  }
+  return `0x${BigInt(match[1]!).toString(16).padStart(40, "0")}`;
+}
+
+/**
+ * Parses a `shard.realm.num` account ID, optionally followed by a HIP-15
+ * checksum (`0.0.123-vfmkw`)
+ *
+ * A checksum is verified against the ledger of `chainId`, or `ledgerId` for
+ * custom networks. Without either, it is accepted as is.
+ *
+ * @example
+ * ```typescript
+ * parseAccountId("0.0.123-vfmkw", "hedera:mainnet");
+ * // { success: true, shard: 0, realm: 0, num: 123, accountId: "0.0.123", checksum: "vfmkw" }
+ * ```
+ */
+export function parseAccountId(
+  input: string,
+  chainId?: string,
+  ledgerId?: string
+): AccountIdParseResult {
+  if (!ACCOUNT_ID_REGEX.test(input)) {
+    return { success: false, error: "Invalid account ID" };
+  }
+
+  // Any ledger will do to split the input when there is none to verify
+  // the checksum against
+  const result = toChecksumAddress(
+    chainId ?? "",
+    input,
+    ledgerId ?? (chainId ? undefined : "00")
+  );
+  if (result.status === 0) {
+    return { success: false, error: `Unknown network ${chainId}` };
+  }
+  if (result.status === 1 && (chainId || ledgerId)) {
+    return {
+      success: false,
+      error: `Account ID checksum mismatch for network ${chainId ?? ledgerId}`,
+    };
+  }
+  return {
+    success: true,
+    shard: result.num1,
+    realm: result.num2,
+    num: result.num3,
+    accountId: result.noChecksumFormat,
+    checksum: result.givenChecksum,
+  };
+}
+
+/**
+ * Formats an account ID with the HIP-15 checksum for a network
+ *
+ * @returns The checksummed account ID, or `null` if the account ID is
+ * malformed, its checksum is for another network, or the network is unknown
+ */
+export function formatAccountId(
+  accountId: string,
+  chainId: string,
+  ledgerId?: string
+): string | null {
+  const result = toChecksumAddress(chainId, accountId, ledgerId);
+  return result.isValid ? result.withChecksumFormat : null;
+}
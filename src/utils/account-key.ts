@@ -0,0 +1,317 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Exponential Science Foundation and contributors
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils.js";
+import { readProtobufFields } from "./protobuf";
+import { DEFAULT_HEDERA_NETWORKS } from "./network";
+import type { SecondaryStorage } from "better-auth/db";
+import type {
+  AccountKeyResolver,
+  EvmAddressResolver,
+  HederaKey,
+  HederaNetwork,
+  TokenBalanceResolver,
+} from "../types";
+
+export const DEFAULT_MIRROR_NODE_URLS: Partial<Record<string, string>> =
+  Object.fromEntries(
+    DEFAULT_HEDERA_NETWORKS.filter((n) => n.mirrorNodeUrl).map((n) => [
+      n.chainId,
+      n.mirrorNodeUrl,
+    ])
+  );
+
+export interface MirrorNodeResolverOptions {
+  /**
+   * Mirror node REST base URLs per chain. These take precedence over the
+   * `mirrorNodeUrl` of the plugin's network registry, which in turn takes
+   * precedence over the public defaults. Devnet has no default.
+   */
+  urls?: Partial<Record<string, string>>;
+  fetch?: typeof fetch;
+}
+
+interface MirrorNodeAccount {
+  account: string;
+  evm_address: string | null;
+  key: {
+    _type: "ED25519" | "ECDSA_SECP256K1" | "ProtobufEncoded";
+    key: string;
+  } | null;
+}
+
+interface MirrorNodeTokenRelationships {
+  tokens: { token_id: string; balance: number }[];
+}
+
+function createMirrorNodeClient(options: MirrorNodeResolverOptions) {
+  const fetchFn = options.fetch ?? fetch;
+
+  // Fetches a REST API path, resolving to `null` when it is not found
+  return async <T>(
+    path: string,
+    chainId: string,
+    network?: HederaNetwork
+  ): Promise<T | null> => {
+    const baseURL =
+      options.urls?.[chainId] ??
+      network?.mirrorNodeUrl ??
+      DEFAULT_MIRROR_NODE_URLS[chainId];
+    if (!baseURL) {
+      throw new Error(`No mirror node URL configured for ${chainId}`);
+    }
+
+    const response = await fetchFn(`${baseURL.replace(/\/+$/, "")}${path}`, {
+      headers: { accept: "application/json" },
+    });
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(
+        `Mirror node request for ${path} failed with status ${response.status}`
+      );
+    }
+    return (await response.json()) as T;
+  };
+}
+
+// Accepts an account ID or an EVM address
+const accountPath = (account: string) =>
+  `/api/v1/accounts/${encodeURIComponent(account)}`;
+
+function decodeKey(bytes: Uint8Array): HederaKey | null {
+  const [entry] = readProtobufFields(bytes);
+  if (!entry || entry.wireType !== 2) {
+    return null;
+  }
+
+  switch (entry.field) {
+    case 2: // ed25519
+      return { type: "ed25519", key: bytesToHex(entry.value) };
+    case 7: // ECDSA_secp256k1
+      return { type: "ecdsa_secp256k1", key: bytesToHex(entry.value) };
+    case 5: {
+      // thresholdKey
+      const fields = readProtobufFields(entry.value);
+      const threshold = fields.find((f) => f.field === 1);
+      const list = fields.find((f) => f.field === 2);
+      if (threshold?.wireType !== 0 || list?.wireType !== 2) {
+        return null;
+      }
+      return {
+        ...decodeKeyList(list.value),
+        threshold: Number(threshold.value),
+      };
+    }
+    case 6: // keyList
+      return decodeKeyList(entry.value);
+    default:
+      // Contract IDs and RSA/ECDSA-384 keys can't sign a SIWH message
+      return null;
+  }
+}
+
+function decodeKeyList(bytes: Uint8Array) {
+  const entries = readProtobufFields(bytes).filter((f) => f.field === 1);
+  const keys: HederaKey[] = [];
+  for (const entry of entries) {
+    const key = entry.wireType === 2 ? decodeKey(entry.value) : null;
+    if (key) keys.push(key);
+  }
+  // Keys that can't sign still count towards a full KeyList
+  return { type: "keyList", keys, threshold: entries.length } as const;
+}
+
+/**
+ * Decodes a protobuf-encoded Hedera `Key`, as returned by the mirror node
+ * for KeyList and threshold keys, into a key structure
+ *
+ * @param key - Hex-encoded protobuf bytes
+ * @returns The key, or `null` if it cannot sign messages or is malformed
+ */
+export function decodeProtobufKey(key: string): HederaKey | null {
+  try {
+    return decodeKey(hexToBytes(key.replace(/^0x/, "")));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Creates a resolver that looks up account keys through the Hedera mirror
+ * node REST API (`GET /api/v1/accounts/{id}`)
+ *
+ * Unknown accounts resolve to `null`; any other mirror node failure throws
+ * so that an outage is not reported as an invalid signature.
+ *
+ * @example
+ * ```typescript
+ * siwh({
+ *   // ...
+ *   resolveAccountKey: mirrorNodeKeyResolver({
+ *     urls: { "hedera:devnet": "http://localhost:5551" },
+ *   }),
+ * });
+ * ```
+ */
+export function mirrorNodeKeyResolver(
+  options: MirrorNodeResolverOptions = {}
+): AccountKeyResolver {
+  const request = createMirrorNodeClient(options);
+
+  return async (address, chainId, network) => {
+    const account = await request<MirrorNodeAccount>(
+      accountPath(address),
+      chainId,
+      network
+    );
+    switch (account?.key?._type) {
+      case "ED25519":
+        return { type: "ed25519", key: account.key.key };
+      case "ECDSA_SECP256K1":
+        return { type: "ecdsa_secp256k1", key: account.key.key };
+      case "ProtobufEncoded":
+        return decodeProtobufKey(account.key.key);
+      default:
+        return null;
+    }
+  };
+}
+
+/**
+ * Creates a resolver that maps EVM addresses, including ECDSA aliases, to
+ * their account ID through the Hedera mirror node REST API
+ *
+ * @example
+ * ```typescript
+ * siwh({
+ *   // ...
+ *   resolveEvmAddress: mirrorNodeEvmAddressResolver(),
+ * });
+ * ```
+ */
+export function mirrorNodeEvmAddressResolver(
+  options: MirrorNodeResolverOptions = {}
+): EvmAddressResolver {
+  const request = createMirrorNodeClient(options);
+
+  return async (evmAddress, chainId, network) => {
+    const account = await request<MirrorNodeAccount>(
+      accountPath(evmAddress),
+      chainId,
+      network
+    );
+    return account?.account ?? null;
+  };
+}
+
+/**
+ * Creates a resolver that looks up token balances through the Hedera mirror
+ * node REST API (`GET /api/v1/accounts/{id}/tokens`)
+ *
+ * Balances are in the token's smallest unit; for NFT collections they are
+ * the number of NFTs held. Unknown accounts and tokens the account isn't
+ * associated with have a balance of 0.
+ *
+ * @example
+ * ```typescript
+ * siwh({
+ *   // ...
+ *   gate: {
+ *     resolveTokenBalance: mirrorNodeTokenBalanceResolver(),
+ *     tokens: ["0.0.4567"],
+ *   },
+ * });
+ * ```
+ */
+export function mirrorNodeTokenBalanceResolver(
+  options: MirrorNodeResolverOptions = {}
+): TokenBalanceResolver {
+  const request = createMirrorNodeClient(options);
+
+  return async (address, tokenId, chainId, network) => {
+    const relationships = await request<MirrorNodeTokenRelationships>(
+      `${accountPath(address)}/tokens?token.id=${encodeURIComponent(tokenId)}`,
+      chainId,
+      network
+    );
+    return (
+      relationships?.tokens.find((token) => token.token_id === tokenId)
+        ?.balance ?? 0
+    );
+  };
+}
+
+/**
+ * Creates a resolver backed by a fixed map of account keys, for tests and
+ * air-gapped deployments
+ *
+ * Entries are keyed either by account ID (`0.0.123`), matching every chain,
+ * or by CAIP-10 account (`hedera:testnet:0.0.123`), which takes precedence.
+ */
+export function staticKeyResolver(
+  keys: Record<string, HederaKey>
+): AccountKeyResolver {
+  return async (address, chainId) =>
+    keys[`${chainId}:${address}`] ?? keys[address] ?? null;
+}
+
+/**
+ * Creates a token balance resolver backed by a fixed map, for tests
+ *
+ * Balances are keyed by account, as in `staticKeyResolver`, then by token ID.
+ * Anything missing has a balance of 0.
+ */
+export function staticTokenBalanceResolver(
+  balances: Record<string, Record<string, number>>
+): TokenBalanceResolver {
+  return async (address, tokenId, chainId) =>
+    balances[`${chainId}:${address}`]?.[tokenId] ??
+    balances[address]?.[tokenId] ??
+    0;
+}
+
+/**
+ * Wraps a resolver with a TTL cache
+ *
+ * Keys are cached in better-auth's secondary storage when one is configured,
+ * otherwise in process memory. Accounts that don't resolve are not cached.
+ *
+ * @param ttl - Time to live in seconds
+ * @param getStorage - Returns the secondary storage, if any, at call time
+ */
+export function withAccountKeyCache(
+  resolver: AccountKeyResolver,
+  ttl: number,
+  getStorage: () => SecondaryStorage | undefined = () => undefined
+): AccountKeyResolver {
+  const memory = new Map<string, { key: HederaKey; expiresAt: number }>();
+
+  return async (address, chainId, network) => {
+    const cacheKey = `siwh-account-key:${chainId}:${address}`;
+    const storage = getStorage();
+
+    if (storage) {
+      const cached = await storage.get(cacheKey);
+      if (typeof cached === "string") {
+        return JSON.parse(cached) as HederaKey;
+      }
+    } else {
+      const cached = memory.get(cacheKey);
+      if (cached && cached.expiresAt > Date.now()) {
+        return cached.key;
+      }
+      memory.delete(cacheKey);
+    }
+
+    const key = await resolver(address, chainId, network);
+    if (key) {
+      if (storage) {
+        await storage.set(cacheKey, JSON.stringify(key), ttl);
+      } else {
+        memory.set(cacheKey, { key, expiresAt: Date.now() + ttl * 1000 });
+      }
+    }
+    return key;
+  };
+}
@@ -1,6 +1,6 @@
 // SPDX-License-Identifier: Apache-2.0
 // Copyright 2025 Exponential Science Foundation and contributors
-import { HederaChainId } from "../types";
+import { DEFAULT_HEDERA_NETWORKS } from "./network";
 
 type InvalidChecksumResult = {
   isValid: false;
@@ -68,26 +68,23 @@ function checksum(ledgerId: string, addr: string) {
   return answer;
 }
 
+/**
+ * @param ledgerId - Hex-encoded ledger ID; looked up from the default
+ * networks when omitted
+ */
 export function toChecksumAddress(
-  chainId: HederaChainId,
-  address: string
+  chainId: string,
+  address: string,
+  ledgerId = DEFAULT_HEDERA_NETWORKS.find((n) => n.chainId === chainId)
+    ?.ledgerId
 ): ChecksumAddressResult {
   let match = address.match(
     /^(0|(?:[1-9]\d*))\.(0|(?:[1-9]\d*))\.(0|(?:[1-9]\d*))(?:-([a-z]{5}))?$/
   );
-  if (!match) {
+  if (!match || !ledgerId) {
     return { isValid: false, status: 0 } as const;
   }
 
-  // Map HederaChainId to ledgerId
-  const ledgerIdMap: Record<HederaChainId, string> = {
-    [HederaChainId.Mainnet]: "00",
-    [HederaChainId.Testnet]: "01",
-    [HederaChainId.Previewnet]: "02",
-    [HederaChainId.Devnet]: "01", // Devnet uses same as testnet
-  };
-
-  const ledgerId = ledgerIdMap[chainId];
   let a = [parseInt(match[1]!), parseInt(match[2]!), parseInt(match[3]!)];
   let ad = `${a[0]!}.${a[1]!}.${a[2]!}`;
   let c = checksum(ledgerId, ad);
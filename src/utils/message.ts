@@ -0,0 +1,238 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Exponential Science Foundation and contributors
+import type { CacaoPayload } from "../types";
+
+export interface SIWHMessageFields {
+  domain: string;
+  address: string;
+  chainId: string;
+  uri: string;
+  nonce: string;
+  version?: "1";
+  statement?: string;
+  issuedAt?: string | Date;
+  expirationTime?: string | Date;
+  notBefore?: string | Date;
+  requestId?: string;
+  resources?: string[];
+}
+
+export type SIWHParseResult =
+  | {
+      success: true;
+      payload: CacaoPayload;
+      address: string;
+      chainId: string;
+    }
+  | {
+      success: false;
+      error: string;
+    };
+
+const HEADER_SUFFIX = " wants you to sign in with your Hedera account:";
+
+const DOMAIN_REGEX = /^[^\s/?#]+$/;
+const ADDRESS_REGEX =
+  /^(?:(0|(?:[1-9]\d*))\.(0|(?:[1-9]\d*))\.(0|(?:[1-9]\d*))(?:-([a-z]{5}))?|0x[0-9a-fA-F]{40})$/;
+const CHAIN_REFERENCE_REGEX = /^[-_a-zA-Z0-9]{1,32}$/;
+const NONCE_REGEX = /^[A-Za-z0-9._~+/=-]{8,}$/;
+const DATETIME_REGEX =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:\d{2})$/;
+
+function toTimestamp(value: string | Date) {
+  return value instanceof Date ? value.toISOString() : value;
+}
+
+function isTimestamp(value: string) {
+  return DATETIME_REGEX.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+function isUri(value: string) {
+  try {
+    new URL(value);
+    return !/\s/.test(value);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Formats a CAIP-122 "Sign-In With Hedera" message
+ *
+ * The chain ID is given in CAIP-2 form (e.g. `hedera:mainnet`); only its
+ * reference is written to the `Chain ID` line, as CAIP-122 prescribes.
+ *
+ * @example
+ * ```typescript
+ * import { createSiwhMessage } from "@exponentialscience/better-auth-hedera";
+ *
+ * const message = createSiwhMessage({
+ *   domain: "example.com",
+ *   address: "0.0.9167913",
+ *   chainId: "hedera:mainnet",
+ *   uri: "https://example.com/login",
+ *   nonce,
+ *   statement: "Sign in to Example",
+ * });
+ * ```
+ */
+export function createSiwhMessage(fields: SIWHMessageFields): string {
+  const [namespace, reference] = fields.chainId.split(":");
+  if (namespace !== "hedera" || !reference) {
+    throw new Error(`Invalid Hedera chain ID: ${fields.chainId}`);
+  }
+  if (fields.statement?.includes("\n")) {
+    throw new Error("SIWH statement must not contain line breaks");
+  }
+
+  const lines = [`${fields.domain}${HEADER_SUFFIX}`, fields.address, ""];
+  if (fields.statement) {
+    lines.push(fields.statement, "");
+  }
+  lines.push(
+    `URI: ${fields.uri}`,
+    `Version: ${fields.version ?? "1"}`,
+    `Chain ID: ${reference}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${toTimestamp(fields.issuedAt ?? new Date())}`
+  );
+  if (fields.expirationTime) {
+    lines.push(`Expiration Time: ${toTimestamp(fields.expirationTime)}`);
+  }
+  if (fields.notBefore) {
+    lines.push(`Not Before: ${toTimestamp(fields.notBefore)}`);
+  }
+  if (fields.requestId !== undefined) {
+    lines.push(`Request ID: ${fields.requestId}`);
+  }
+  if (fields.resources?.length) {
+    lines.push("Resources:", ...fields.resources.map((r) => `- ${r}`));
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Parses a "Sign-In With Hedera" message back into a CACAO payload
+ *
+ * Parsing is strict: fields must appear in CAIP-122 order, required fields
+ * must be present, and any unknown or trailing line makes the message invalid.
+ * The issuer is returned as a `did:pkh` identifier alongside the plain
+ * address (an account ID or EVM address) and CAIP-2 chain ID.
+ */
+export function parseSiwhMessage(message: string): SIWHParseResult {
+  const fail = (error: string) => ({ success: false, error }) as const;
+  const lines = message.split("\n");
+  let i = 0;
+
+  const header = lines[i++];
+  if (!header?.endsWith(HEADER_SUFFIX)) {
+    return fail("Missing SIWH message header");
+  }
+  const domain = header.slice(0, -HEADER_SUFFIX.length);
+  if (!DOMAIN_REGEX.test(domain)) {
+    return fail("Invalid domain");
+  }
+
+  const address = lines[i++];
+  if (!address || !ADDRESS_REGEX.test(address)) {
+    return fail("Invalid account ID");
+  }
+
+  if (lines[i++] !== "") {
+    return fail("Expected an empty line after the account ID");
+  }
+
+  let statement: string | undefined;
+  if (lines[i] !== undefined && !lines[i]!.startsWith("URI: ")) {
+    statement = lines[i++];
+    if (lines[i++] !== "") {
+      return fail("Expected an empty line after the statement");
+    }
+  }
+
+  const readField = (name: string) => {
+    const prefix = `${name}: `;
+    const line = lines[i];
+    if (line === undefined || !line.startsWith(prefix)) {
+      return undefined;
+    }
+    i++;
+    return line.slice(prefix.length);
+  };
+
+  const uri = readField("URI");
+  if (!uri || !isUri(uri)) {
+    return fail("Invalid URI");
+  }
+
+  const version = readField("Version");
+  if (version !== "1") {
+    return fail("Unsupported version");
+  }
+
+  const reference = readField("Chain ID");
+  if (!reference || !CHAIN_REFERENCE_REGEX.test(reference)) {
+    return fail("Invalid chain ID");
+  }
+
+  const nonce = readField("Nonce");
+  if (!nonce || !NONCE_REGEX.test(nonce)) {
+    return fail("Invalid nonce");
+  }
+
+  const iat = readField("Issued At");
+  if (!iat || !isTimestamp(iat)) {
+    return fail("Invalid issued at timestamp");
+  }
+
+  const exp = readField("Expiration Time");
+  if (exp !== undefined && !isTimestamp(exp)) {
+    return fail("Invalid expiration time");
+  }
+
+  const nbf = readField("Not Before");
+  if (nbf !== undefined && !isTimestamp(nbf)) {
+    return fail("Invalid not before timestamp");
+  }
+
+  const requestId = readField("Request ID");
+
+  let resources: string[] | undefined;
+  if (lines[i] === "Resources:") {
+    i++;
+    resources = [];
+    while (lines[i]?.startsWith("- ")) {
+      const resource = lines[i++]!.slice(2);
+      if (!isUri(resource)) {
+        return fail("Invalid resource URI");
+      }
+      resources.push(resource);
+    }
+  }
+
+  if (i !== lines.length) {
+    return fail(`Unexpected content on line ${i + 1}`);
+  }
+
+  const chainId = `hedera:${reference}`;
+
+  return {
+    success: true,
+    address,
+    chainId,
+    payload: {
+      domain,
+      aud: uri,
+      nonce,
+      iss: `did:pkh:${chainId}:${address}`,
+      version,
+      iat,
+      ...(nbf !== undefined && { nbf }),
+      ...(exp !== undefined && { exp }),
+      ...(statement !== undefined && { statement }),
+      ...(requestId !== undefined && { requestId }),
+      ...(resources !== undefined && { resources }),
+    },
+  };
+}
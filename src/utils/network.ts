@@ -0,0 +1,69 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Exponential Science Foundation and contributors
+import { HederaChainId } from "../types";
+import type { HederaNetwork } from "../types";
+
+const CHAIN_ID_REGEX = /^hedera:[-_a-zA-Z0-9]{1,32}$/;
+const LEDGER_ID_REGEX = /^([0-9a-fA-F]{2})+$/;
+
+/**
+ * The networks every SIWH deployment knows about. Devnet shares testnet's
+ * ledger ID for checksum compatibility; override it in the plugin's
+ * `networks` option if your devnet uses another one.
+ */
+export const DEFAULT_HEDERA_NETWORKS: readonly HederaNetwork<HederaChainId>[] =
+  [
+    {
+      chainId: HederaChainId.Mainnet,
+      ledgerId: "00",
+      mirrorNodeUrl: "https://mainnet-public.mirrornode.hedera.com",
+      name: "Hedera Mainnet",
+    },
+    {
+      chainId: HederaChainId.Testnet,
+      ledgerId: "01",
+      mirrorNodeUrl: "https://testnet.mirrornode.hedera.com",
+      name: "Hedera Testnet",
+    },
+    {
+      chainId: HederaChainId.Previewnet,
+      ledgerId: "02",
+      mirrorNodeUrl: "https://previewnet.mirrornode.hedera.com",
+      name: "Hedera Previewnet",
+    },
+    {
+      chainId: HederaChainId.Devnet,
+      ledgerId: "01",
+      name: "Hedera Devnet",
+    },
+  ];
+
+/**
+ * Merges custom networks over the defaults, keyed by chain ID
+ *
+ * @throws If a network has an invalid chain ID or ledger ID
+ */
+export function createNetworkRegistry(
+  networks: readonly HederaNetwork[] = []
+): Map<string, HederaNetwork> {
+  const registry = new Map<string, HederaNetwork>(
+    DEFAULT_HEDERA_NETWORKS.map((network) => [network.chainId, network])
+  );
+  for (const network of networks) {
+    if (!CHAIN_ID_REGEX.test(network.chainId)) {
+      throw new Error(
+        `Invalid chain ID "${network.chainId}", expected hedera:<reference>`
+      );
+    }
+    if (!LEDGER_ID_REGEX.test(network.ledgerId)) {
+      throw new Error(
+        `Invalid ledger ID "${network.ledgerId}" for ${network.chainId}, expected hex`
+      );
+    }
+    registry.set(network.chainId, {
+      ...registry.get(network.chainId),
+      ...network,
+    });
+  }
+  return registry;
+}
@@ -0,0 +1,88 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Exponential Science Foundation and contributors
+import { hmac } from "@noble/hashes/hmac.js";
+import { sha256 } from "@noble/hashes/sha2.js";
+import { constantTimeEqual } from "better-auth/crypto";
+import { base64ToSignature, signatureToBase64 } from "./signature";
+
+interface StatelessNonceBinding {
+  secret: string;
+  address: string;
+  chainId: string;
+  domain: string;
+}
+
+// Built on the base64 helpers, which also run where `Buffer` is missing
+function toBase64Url(bytes: Uint8Array) {
+  return signatureToBase64(bytes)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string) {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  return base64ToSignature(
+    base64.padEnd(Math.ceil(base64.length / 4) * 4, "=")
+  );
+}
+
+function sign(payload: string, binding: StatelessNonceBinding) {
+  const data = [
+    "siwh-nonce",
+    payload,
+    binding.address,
+    binding.chainId,
+    binding.domain,
+  ].join("|");
+  const encoder = new TextEncoder();
+  return hmac(sha256, encoder.encode(binding.secret), encoder.encode(data));
+}
+
+/**
+ * Creates a self-contained nonce: `<random>.<expiry>.<signature>`, where the
+ * signature is an HMAC-SHA256 over the random part, the expiry, the wallet
+ * address, the chain ID and the domain
+ *
+ * Nothing has to be stored to verify it later, so issuing a nonce needs no
+ * database write.
+ */
+export function createStatelessNonce(
+  nonce: string,
+  expiresAt: Date,
+  binding: StatelessNonceBinding
+): string {
+  const payload = `${toBase64Url(new TextEncoder().encode(nonce))}.${expiresAt
+    .getTime()
+    .toString(36)}`;
+  return `${payload}.${toBase64Url(sign(payload, binding))}`;
+}
+
+/**
+ * Checks a nonce made by `createStatelessNonce` against the request it is
+ * used in
+ *
+ * @returns When the nonce expires, or `null` if it is malformed, expired or
+ * was issued for another address, chain or domain
+ */
+export function verifyStatelessNonce(
+  token: string,
+  binding: StatelessNonceBinding
+): Date | null {
+  const parts = token.split(".");
+  if (parts.length !== 3 || parts.some((p) => !/^[A-Za-z0-9_-]+$/.test(p))) {
+    return null;
+  }
+
+  const payload = `${parts[0]}.${parts[1]}`;
+  const signature = fromBase64Url(parts[2]!);
+  if (!constantTimeEqual(signature, sign(payload, binding))) {
+    return null;
+  }
+
+  const expiresAt = new Date(parseInt(parts[1]!, 36));
+  if (Number.isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now()) {
+    return null;
+  }
+  return expiresAt;
+}
@@ -0,0 +1,78 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Exponential Science Foundation and contributors
+
+// Minimal protobuf wire-format reader, enough for the handful of Hedera
+// messages (Key, SignatureMap) the plugin needs to decode
+
+export type ProtobufField =
+  | { field: number; wireType: 0; value: bigint }
+  | { field: number; wireType: 2; value: Uint8Array };
+
+function readVarint(bytes: Uint8Array, offset: number): [bigint, number] {
+  let result = 0n;
+  let shift = 0n;
+  for (let i = offset; i < bytes.length && shift < 70n; i++) {
+    const byte = bytes[i]!;
+    result |= BigInt(byte & 0x7f) << shift;
+    if ((byte & 0x80) === 0) {
+      return [result, i + 1];
+    }
+    shift += 7n;
+  }
+  throw new Error("Malformed protobuf varint");
+}
+
+/**
+ * Splits a protobuf message into its top-level fields
+ *
+ * Only varint and length-delimited fields are supported, which covers every
+ * field of the Hedera messages decoded here. Fixed-width fields are skipped.
+ *
+ * @throws If the bytes are not a well-formed protobuf message
+ */
+export function readProtobufFields(bytes: Uint8Array): ProtobufField[] {
+  const fields: ProtobufField[] = [];
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    const [tag, next] = readVarint(bytes, offset);
+    const field = Number(tag >> 3n);
+    const wireType = Number(tag & 7n);
+    offset = next;
+    if (field === 0) {
+      throw new Error("Invalid protobuf field number");
+    }
+
+    switch (wireType) {
+      case 0: {
+        const [value, end] = readVarint(bytes, offset);
+        fields.push({ field, wireType, value });
+        offset = end;
+        break;
+      }
+      case 1:
+        offset += 8;
+        break;
+      case 2: {
+        const [length, start] = readVarint(bytes, offset);
+        const end = start + Number(length);
+        if (end > bytes.length) {
+          throw new Error("Truncated protobuf field");
+        }
+        fields.push({ field, wireType, value: bytes.subarray(start, end) });
+        offset = end;
+        break;
+      }
+      case 5:
+        offset += 4;
+        break;
+      default:
+        throw new Error(`Unsupported protobuf wire type ${wireType}`);
+    }
+  }
+
+  if (offset !== bytes.length) {
+    throw new Error("Truncated protobuf message");
+  }
+  return fields;
+}
@@ -1,5 +1,14 @@
 // SPDX-License-Identifier: Apache-2.0
 // Copyright 2025 Exponential Science Foundation and contributors
+import { readProtobufFields } from "./protobuf";
+import type { HederaKeyType } from "../types";
+
+export interface SignatureMapEntry {
+  publicKeyPrefix: Uint8Array;
+  type: HederaKeyType;
+  signature: Uint8Array;
+}
+
 /**
  * Converts a Uint8Array signature to a base64 string
  * This is useful when working with hashconnect's signMessages function
@@ -55,3 +64,70 @@ export function base64ToSignature(signature: string): Uint8Array {
     return bytes;
   }
 }
+
+/**
+ * Decodes a protobuf `SignatureMap`, the format returned by the Hedera
+ * WalletConnect `hedera_signMessage` method
+ *
+ * Only ED25519 and ECDSA secp256k1 signature pairs are returned; pairs of any
+ * other kind are skipped.
+ *
+ * @param signatureMap - Base64 encoded string or raw bytes
+ * @returns The signature pairs, or `null` if the input is not a SignatureMap
+ *
+ * @example
+ * ```typescript
+ * import { decodeSignatureMap } from "@exponentialscience/better-auth-hedera";
+ *
+ * const { signatureMap } = await walletConnect.request({
+ *   method: "hedera_signMessage",
+ *   params: { signerAccountId, message },
+ * });
+ * const [pair] = decodeSignatureMap(signatureMap) ?? [];
+ * ```
+ */
+export function decodeSignatureMap(
+  signatureMap: string | Uint8Array
+): SignatureMapEntry[] | null {
+  const bytes =
+    typeof signatureMap === "string"
+      ? base64ToSignature(signatureMap)
+      : signatureMap;
+
+  try {
+    const pairs = readProtobufFields(bytes);
+    if (!pairs.length || pairs.some((p) => p.field !== 1 || p.wireType !== 2)) {
+      return null;
+    }
+
+    const entries: SignatureMapEntry[] = [];
+    for (const pair of pairs) {
+      let publicKeyPrefix: Uint8Array = new Uint8Array();
+      let signature: Omit<SignatureMapEntry, "publicKeyPrefix"> | null = null;
+      for (const field of readProtobufFields(pair.value as Uint8Array)) {
+        if (field.wireType !== 2) continue;
+        if (field.field === 1) {
+          publicKeyPrefix = field.value;
+        } else if (field.field === 3) {
+          signature = { type: "ed25519", signature: field.value };
+        } else if (field.field === 6) {
+          signature = { type: "ecdsa_secp256k1", signature: field.value };
+        }
+      }
+      if (signature) {
+        entries.push({ publicKeyPrefix, ...signature });
+      }
+    }
+    return entries.length ? entries : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks whether decoded signature bytes are a `SignatureMap` rather than
+ * a raw 64-byte ED25519 / ECDSA signature
+ */
+export function isSignatureMap(signature: Uint8Array): boolean {
+  return signature.length !== 64 && decodeSignatureMap(signature) !== null;
+}
@@ -8,3 +8,36 @@ export function getOrigin(url: string) {
     return null;
   }
 }
+
+export function getHost(url: string) {
+  try {
+    return new URL(url).host;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Matches a URL against better-auth `trustedOrigins` entries, the same way
+ * better-auth does for callback URLs: exact origins, wildcard patterns such
+ * as `https://*.example.com` or `*.example.com`, and custom schemes such as
+ * `myapp://`, which match by prefix
+ */
+export function matchesTrustedOrigin(url: string, trustedOrigins: string[]) {
+  return trustedOrigins.some((pattern) => {
+    if (pattern.includes("*")) {
+      const regex = new RegExp(
+        `^${pattern
+          .split("*")
+          .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+          .join("[^/]*")}$`
+      );
+      const value = pattern.includes("://") ? getOrigin(url) : getHost(url);
+      return !!value && regex.test(value);
+    }
+    const protocol = /^([a-z][a-z0-9+.-]*:)/i.exec(url)?.[1];
+    return protocol === "http:" || protocol === "https:"
+      ? getOrigin(url) === pattern
+      : url.startsWith(pattern);
+  });
+}
@@ -0,0 +1,256 @@
+// SPDX-License-Identifier: Apache-2.0
+// Copyright 2025 Exponential Science Foundation and contributors
+import { ed25519 } from "@noble/curves/ed25519.js";
+import { secp256k1 } from "@noble/curves/secp256k1.js";
+import { keccak_256 } from "@noble/hashes/sha3.js";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils.js";
+import type {
+  AccountKeyResolver,
+  HederaKey,
+  HederaKeyType,
+  HederaPublicKey,
+  HederaSignature,
+  SIWHVerifyMessageArgs,
+} from "../types";
+
+export const HEDERA_MESSAGE_PREFIX = "\x19Hedera Signed Message:\n";
+export const EIP191_MESSAGE_PREFIX = "\x19Ethereum Signed Message:\n";
+
+// DER (SubjectPublicKeyInfo) headers Hedera uses when encoding public keys
+const DER_PREFIXES: Record<HederaKeyType, string[]> = {
+  ed25519: ["302a300506032b6570032100"],
+  ecdsa_secp256k1: [
+    "302d300706052b8104000a032200",
+    "3036301006072a8648ce3d020106052b8104000a032200",
+    "3056301006072a8648ce3d020106052b8104000a034200",
+  ],
+};
+
+/**
+ * Applies the Hedera signed-message convention used by HashPack and the
+ * Hedera WalletConnect `hedera_signMessage` method:
+ * `"\x19Hedera Signed Message:\n" + message.length + message`.
+ *
+ * Like the wallets, the length is the JavaScript string length of the message.
+ */
+export function prefixHederaMessage(message: string): Uint8Array {
+  return new TextEncoder().encode(
+    `${HEDERA_MESSAGE_PREFIX}${message.length}${message}`
+  );
+}
+
+/**
+ * Decodes a hex-encoded Hedera public key, either raw or DER-encoded,
+ * into its raw bytes
+ *
+ * @returns The raw key bytes, or `null` if the key is malformed
+ */
+export function decodeHederaPublicKey(
+  publicKey: HederaPublicKey
+): Uint8Array | null {
+  let hex = publicKey.key.toLowerCase().replace(/^0x/, "");
+  const prefix = DER_PREFIXES[publicKey.type].find((p) => hex.startsWith(p));
+  if (prefix) {
+    hex = hex.slice(prefix.length);
+  }
+  if (!/^([0-9a-f]{2})+$/.test(hex)) {
+    return null;
+  }
+
+  const bytes = hexToBytes(hex);
+  if (publicKey.type === "ed25519") {
+    return bytes.length === 32 ? bytes : null;
+  }
+  return bytes.length === 33 || bytes.length === 65 ? bytes : null;
+}
+
+/**
+ * Verifies a signature made by a Hedera wallet over a message
+ *
+ * The message is prefixed with the Hedera signed-message header before
+ * verification. ED25519 signatures are checked over the prefixed bytes;
+ * ECDSA secp256k1 signatures over their keccak-256 hash, as Hedera does.
+ */
+export function verifyHederaSignature({
+  message,
+  signature,
+  publicKey,
+}: {
+  message: string;
+  signature: Uint8Array;
+  publicKey: HederaPublicKey;
+}): boolean {
+  const key = decodeHederaPublicKey(publicKey);
+  if (!key || signature.length !== 64) {
+    return false;
+  }
+
+  const bytes = prefixHederaMessage(message);
+  try {
+    if (publicKey.type === "ed25519") {
+      return ed25519.verify(signature, bytes, key);
+    }
+    return secp256k1.verify(signature, keccak_256(bytes), key, {
+      prehash: false,
+      lowS: false,
+    });
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verifies an EIP-191 `personal_sign` signature, as produced by EVM wallets
+ * such as MetaMask, against an ECDSA secp256k1 Hedera key
+ *
+ * The signature is the 65-byte `r || s || v` form; the recovery byte is
+ * ignored since the public key is already known.
+ */
+export function verifyEip191Signature({
+  message,
+  signature,
+  publicKey,
+}: {
+  message: string;
+  signature: Uint8Array;
+  publicKey: HederaPublicKey;
+}): boolean {
+  const key = decodeHederaPublicKey(publicKey);
+  if (
+    !key ||
+    publicKey.type !== "ecdsa_secp256k1" ||
+    signature.length !== 65
+  ) {
+    return false;
+  }
+
+  const bytes = new TextEncoder().encode(message);
+  const prefix = new TextEncoder().encode(
+    `${EIP191_MESSAGE_PREFIX}${bytes.length}`
+  );
+  const prefixed = new Uint8Array(prefix.length + bytes.length);
+  prefixed.set(prefix);
+  prefixed.set(bytes, prefix.length);
+  try {
+    return secp256k1.verify(
+      signature.subarray(0, 64),
+      keccak_256(prefixed),
+      key,
+      { prehash: false, lowS: false }
+    );
+  } catch {
+    return false;
+  }
+}
+
+// Compares keys by their raw bytes, with ECDSA keys in compressed form.
+// Anything that doesn't decode as a full key is matched as a key prefix,
+// as found in a SignatureMap.
+function isSameKey(key: HederaPublicKey, publicKey: string) {
+  const normalize = (k: HederaPublicKey) => {
+    const bytes = decodeHederaPublicKey(k);
+    if (!bytes) return null;
+    try {
+      return k.type === "ecdsa_secp256k1"
+        ? bytesToHex(secp256k1.Point.fromBytes(bytes).toBytes(true))
+        : bytesToHex(bytes);
+    } catch {
+      return null;
+    }
+  };
+  const expected = normalize(key);
+  if (expected === null) {
+    return false;
+  }
+  const actual = normalize({ type: key.type, key: publicKey });
+  if (actual !== null) {
+    return actual === expected;
+  }
+  const prefix = publicKey.toLowerCase().replace(/^0x/, "");
+  return /^([0-9a-f]{2})+$/.test(prefix) && expected.startsWith(prefix);
+}
+
+/**
+ * Checks whether two Hedera keys are the same, comparing public keys by
+ * their raw bytes and KeyLists by threshold and keys, in order
+ */
+export function isSameHederaKey(a: HederaKey, b: HederaKey): boolean {
+  if (a.type === "keyList" || b.type === "keyList") {
+    return (
+      a.type === "keyList" &&
+      b.type === "keyList" &&
+      (a.threshold ?? a.keys.length) === (b.threshold ?? b.keys.length) &&
+      a.keys.length === b.keys.length &&
+      a.keys.every((key, i) => isSameHederaKey(key, b.keys[i]!))
+    );
+  }
+  return a.type === b.type && isSameKey(a, b.key);
+}
+
+/**
+ * Checks whether a set of signatures satisfies a Hedera key
+ *
+ * A single key needs one valid signature from it, or an EIP-191 signature
+ * for ECDSA keys. A KeyList needs every key satisfied, or `threshold` of them
+ * for threshold keys; lists may be nested.
+ */
+export function verifyHederaKeySignatures({
+  message,
+  key,
+  signatures,
+}: {
+  message: string;
+  key: HederaKey;
+  signatures: HederaSignature[];
+}): boolean {
+  if (key.type === "keyList") {
+    const threshold = key.threshold ?? key.keys.length;
+    if (threshold < 1) {
+      return false;
+    }
+    let satisfied = 0;
+    for (const child of key.keys) {
+      if (
+        verifyHederaKeySignatures({ message, key: child, signatures }) &&
+        ++satisfied >= threshold
+      ) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  return signatures.some(({ publicKey, type, signature }) => {
+    if (publicKey !== undefined && !isSameKey(key, publicKey)) {
+      return false;
+    }
+    if (type === "eip191") {
+      return verifyEip191Signature({ message, signature, publicKey: key });
+    }
+    return (
+      (type === undefined || type === key.type) &&
+      verifyHederaSignature({ message, signature, publicKey: key })
+    );
+  });
+}
+
+/**
+ * Creates a `verifyMessage` implementation that checks the signatures
+ * against the account's current key structure
+ *
+ * @param resolveAccountKey - Looks up the public key of a Hedera account
+ */
+export function createHederaVerifier(resolveAccountKey: AccountKeyResolver) {
+  return async ({
+    message,
+    signatures,
+    address,
+    chainId,
+  }: SIWHVerifyMessageArgs): Promise<boolean> => {
+    const key = await resolveAccountKey(address, chainId);
+    if (!key) {
+      return false;
+    }
+    return verifyHederaKeySignatures({ message, key, signatures });
+  };
+}